@@ -6,7 +6,10 @@ const manifest = {
   name: 'Highlight Translator',
   version: '2.5',
   description: 'Highlight any text to translate instantly and save for flashcards.',
-  permissions: ['storage'],
+  permissions: ['storage', 'alarms', 'activeTab', 'contextMenus', 'notifications', 'scripting'],
+  host_permissions: ['https://api-free.deepl.com/*', 'https://api.deepl.com/*', 'https://libretranslate.com/*'],
+  // Self-hosted LibreTranslate endpoints are granted at runtime from the popup
+  optional_host_permissions: ['*://*/*'],
   background: {
     service_worker: 'background.js',
     type: 'module',
@@ -15,7 +18,9 @@ const manifest = {
     {
       matches: ['<all_urls>'],
       js: ['content/example.iife.js'],
-      css: ['tooltip.css'],
+      // Every frame reads its own selection, including about:blank and srcdoc frames pages write into
+      all_frames: true,
+      match_about_blank: true,
     },
   ],
   action: {
@@ -23,6 +28,20 @@ const manifest = {
     default_icon: 'icon.png',
   },
   options_page: 'new-tab/index.html',
+  commands: {
+    'translate-selection': {
+      suggested_key: { default: 'Alt+Shift+T' },
+      description: 'Translate the selected text',
+    },
+    'focus-tooltip': {
+      suggested_key: { default: 'Alt+Shift+Y' },
+      description: 'Move focus into the translation tooltip',
+    },
+    'translate-page': {
+      suggested_key: { default: 'Alt+Shift+R' },
+      description: 'Translate this page in reading mode, or show the original again',
+    },
+  },
   icons: {
     '48': 'icon.png',
   },
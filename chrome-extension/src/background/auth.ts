@@ -0,0 +1,79 @@
+// Authentication handlers
+import { flashcardOutbox } from './flashcard-outbox.js';
+import { clearStoredSessionData, getCurrentSession, restoreSession, storeSessionData, supabase } from './supabase.js';
+import { MessageError, MessageErrorCodeEnum } from '@extension/messaging';
+import type { AuthResult, RequestPayload } from '@extension/messaging';
+
+export const handleSignIn = async ({ email, password, remember = false }: RequestPayload<'auth.signin'>) => {
+  try {
+    const { data, error } = await supabase.auth.signInWithPassword({
+      email,
+      password,
+    });
+
+    if (error) throw error;
+
+    // Store session data for persistence
+    if (remember && data.session) {
+      await chrome.storage.local.set({
+        rememberMe: true,
+        userEmail: email,
+      });
+      await storeSessionData(data.session);
+    }
+
+    // Writes queued while signed out or offline can go through now
+    flashcardOutbox.flush();
+    return { user: data.user, session: data.session } satisfies AuthResult;
+  } catch (error) {
+    console.error('Sign in error:', error);
+    await clearStoredSessionData();
+
+    throw new MessageError(
+      MessageErrorCodeEnum.Unauthenticated,
+      error instanceof Error ? error.message : 'Unknown sign in error',
+    );
+  }
+};
+
+export const handleSignOut = async () => {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+
+  await clearStoredSessionData();
+};
+
+export const handleGetSession = async (): Promise<AuthResult> => {
+  const { rememberMe } = await chrome.storage.local.get('rememberMe');
+
+  if (!rememberMe) {
+    throw new MessageError(MessageErrorCodeEnum.Unauthenticated, 'Remember me not enabled');
+  }
+
+  // Try to restore session first
+  const sessionRestored = await restoreSession();
+
+  if (sessionRestored) {
+    const session = await getCurrentSession();
+    return { session, user: session?.user ?? null };
+  }
+
+  throw new MessageError(MessageErrorCodeEnum.Unauthenticated, 'Could not restore session');
+};
+
+export const handleRefreshSession = async (): Promise<AuthResult> => {
+  const { data, error } = await supabase.auth.refreshSession();
+
+  if (error) {
+    console.error('Refresh session error:', error);
+    await clearStoredSessionData();
+    throw new MessageError(MessageErrorCodeEnum.Unauthenticated, error.message);
+  }
+
+  if (data.session) {
+    await storeSessionData(data.session);
+    return { session: data.session, user: data.user };
+  }
+
+  throw new MessageError(MessageErrorCodeEnum.Unauthenticated, 'No session after refresh');
+};
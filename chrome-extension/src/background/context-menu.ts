@@ -0,0 +1,163 @@
+// "Translate '%s'" in the selection context menu, with a submenu of the target languages used recently, and
+// switches for the current site and "Translate this page" in the page and toolbar icon menus
+import { notify } from './notifications.js';
+import { toggleReadingMode } from './reading-mode.js';
+import { getSiteState } from './site-access.js';
+import { handleTranslate } from './translate.js';
+import { sendToTab } from '@extension/messaging';
+import { DEFAULT_TARGET_LANGUAGE, getLanguageName, toLanguageCode } from '@extension/shared';
+import { siteAccessStorage } from '@extension/storage';
+
+const RECENT_TARGET_LANGS_KEY = 'recentTargetLangs';
+const MAX_RECENT_TARGET_LANGS = 5;
+const PARENT_MENU_ID = 'translate-selection';
+const TARGET_MENU_PREFIX = 'translate-to:';
+const SITE_MENU_ID = 'toggle-site';
+const PAUSE_MENU_ID = 'toggle-pause';
+const READING_MENU_ID = 'translate-page';
+const PAUSE_DURATION_MS = 60 * 60 * 1000;
+
+let menuBuild: Promise<void> = Promise.resolve();
+
+const getRecentTargetLangs = async (): Promise<string[]> => {
+  const { [RECENT_TARGET_LANGS_KEY]: recent, targetLang } = await chrome.storage.local.get([
+    RECENT_TARGET_LANGS_KEY,
+    'targetLang',
+  ]);
+  // Lists saved before the language registry hold DeepL's codes, like `EN-US`
+  const codes: string[] = recent?.length ? recent : [targetLang || DEFAULT_TARGET_LANGUAGE];
+  return [...new Set(codes.map(toLanguageCode))];
+};
+
+const rememberTargetLang = async (lang: string) => {
+  const code = toLanguageCode(lang);
+  const recent = await getRecentTargetLangs();
+  const next = [code, ...recent.filter(recentCode => recentCode !== code)];
+  await chrome.storage.local.set({ [RECENT_TARGET_LANGS_KEY]: next.slice(0, MAX_RECENT_TARGET_LANGS) });
+};
+
+const getActiveTab = async () => (await chrome.tabs.query({ active: true, lastFocusedWindow: true }))[0];
+
+// Titles for the active tab; there is no event for the menu being opened
+const getSiteItems = async () => {
+  const tab = await getActiveTab();
+  const { host, siteEnabled } = await getSiteState(tab?.url ?? '');
+  const { pausedUntil } = await siteAccessStorage.get();
+
+  return {
+    site: {
+      title: siteEnabled ? `Disable on ${host}` : `Enable on ${host}`,
+      visible: Boolean(host),
+    },
+    pause: { title: pausedUntil > Date.now() ? 'Resume' : 'Pause for 1 hour' },
+  };
+};
+
+const buildMenu = async () => {
+  const recent = await getRecentTargetLangs();
+  const siteItems = await getSiteItems();
+  await chrome.contextMenus.removeAll();
+
+  chrome.contextMenus.create({ id: SITE_MENU_ID, contexts: ['page', 'action'], ...siteItems.site });
+  chrome.contextMenus.create({ id: PAUSE_MENU_ID, contexts: ['page', 'action'], ...siteItems.pause });
+  chrome.contextMenus.create({ id: READING_MENU_ID, title: 'Translate this page', contexts: ['page', 'action'] });
+
+  chrome.contextMenus.create({ id: PARENT_MENU_ID, title: "Translate '%s'", contexts: ['selection'] });
+  recent.forEach(lang =>
+    chrome.contextMenus.create({
+      id: `${TARGET_MENU_PREFIX}${lang}`,
+      parentId: PARENT_MENU_ID,
+      title: `to ${getLanguageName(lang)}`,
+      contexts: ['selection'],
+    }),
+  );
+};
+
+// There is no call to replace a submenu, so the menu is rebuilt, one build at a time to avoid duplicate ids
+const rebuildMenu = () => {
+  menuBuild = menuBuild.then(buildMenu).catch(err => console.error('Context menu error', err));
+  return menuBuild;
+};
+
+const updateSiteItems = () => {
+  menuBuild = menuBuild
+    .then(async () => {
+      const siteItems = await getSiteItems();
+      await chrome.contextMenus.update(SITE_MENU_ID, siteItems.site);
+      await chrome.contextMenus.update(PAUSE_MENU_ID, siteItems.pause);
+    })
+    .catch(err => console.error('Context menu error', err));
+};
+
+// Pages without the content script, like the Web Store or the PDF viewer, get the translation as a notification
+const translateWithNotification = async (text: string, targetLang: string, tab?: chrome.tabs.Tab) => {
+  try {
+    const { translation } = await handleTranslate({ text, targetLang, url: tab?.url }, { tab });
+    await notify(text, translation || 'No translation found');
+  } catch (err) {
+    await notify("Couldn't translate the selection", err instanceof Error ? err.message : String(err));
+  }
+};
+
+const toggleSite = async (tab?: chrome.tabs.Tab) => {
+  const { host, siteEnabled } = await getSiteState(tab?.url ?? '');
+  if (host) await siteAccessStorage.setSiteEnabled(host, !siteEnabled);
+};
+
+const togglePause = async () => {
+  const { pausedUntil } = await siteAccessStorage.get();
+  await siteAccessStorage.setPausedUntil(pausedUntil > Date.now() ? 0 : Date.now() + PAUSE_DURATION_MS);
+};
+
+const handleClick = async (info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab) => {
+  const menuItemId = String(info.menuItemId);
+  if (menuItemId === SITE_MENU_ID) return toggleSite(tab);
+  if (menuItemId === PAUSE_MENU_ID) return togglePause();
+  if (menuItemId === READING_MENU_ID) return toggleReadingMode(tab);
+  if (!menuItemId.startsWith(TARGET_MENU_PREFIX) || !info.selectionText) return;
+
+  const targetLang = menuItemId.slice(TARGET_MENU_PREFIX.length);
+  await rememberTargetLang(targetLang);
+
+  const shown =
+    tab?.id !== undefined &&
+    tab.id >= 0 &&
+    (await sendToTab(
+      tab.id,
+      {
+        type: 'translateSelection',
+        source: 'contextMenu',
+        text: info.selectionText,
+        targetLang,
+      },
+      info.frameId,
+    ));
+  if (!shown) {
+    await translateWithNotification(info.selectionText, targetLang, tab);
+  }
+};
+
+/**
+ * Creates the menu and keeps its languages in sync with the target language setting, and its site switches with
+ * the active tab.
+ */
+const start = () => {
+  chrome.contextMenus.onClicked.addListener(handleClick);
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'local') return;
+    if (changes.targetLang?.newValue) rememberTargetLang(changes.targetLang.newValue);
+    if (changes[RECENT_TARGET_LANGS_KEY]) {
+      rebuildMenu();
+    } else if (changes.enabled || changes['site-access-storage-key']) {
+      updateSiteItems();
+    }
+  });
+  chrome.tabs.onActivated.addListener(updateSiteItems);
+  chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+    if (changeInfo.url && tab.active) updateSiteItems();
+  });
+  chrome.windows.onFocusChanged.addListener(updateSiteItems);
+  rebuildMenu();
+};
+
+export const contextMenu = { start };
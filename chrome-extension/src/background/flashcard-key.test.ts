@@ -0,0 +1,43 @@
+import { normalizeLang, toFlashcardKey } from './flashcard-key.js';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+describe('normalizeLang', () => {
+  const cases = [
+    { lang: 'es', normalized: 'es' },
+    { lang: 'ES', normalized: 'es' },
+    { lang: 'es-MX', normalized: 'es' },
+    { lang: 'pt_BR', normalized: 'pt' },
+    { lang: ' zh-Hant ', normalized: 'zh' },
+    { lang: 'fil', normalized: 'fil' },
+    { lang: 'auto', normalized: 'auto' },
+    { lang: 'und', normalized: 'auto' },
+    { lang: '', normalized: 'auto' },
+    { lang: undefined, normalized: 'auto' },
+  ];
+
+  for (const { lang, normalized } of cases) {
+    it(`takes ${JSON.stringify(lang)} as ${normalized}`, () => {
+      assert.equal(normalizeLang(lang), normalized);
+    });
+  }
+});
+
+describe('toFlashcardKey', () => {
+  const cases = [
+    { name: 'DeepL source codes', a: ['hola', 'ES', 'EN-US'], b: ['hola', 'es', 'en-US'] },
+    { name: 'regional source codes', a: ['hola', 'es-MX', 'en-US'], b: ['hola', 'es', 'en-US'] },
+    { name: 'target codes of earlier versions', a: ['hola', 'es', 'en-us'], b: ['hola', 'es', 'en-US'] },
+    { name: 'legacy target codes', a: ['olá', 'pt', 'ES-XL'], b: ['olá', 'pt', 'es-419'] },
+  ] satisfies { name: string; a: [string, string, string]; b: [string, string, string] }[];
+
+  for (const { name, a, b } of cases) {
+    it(`saves ${name} under the same key`, () => {
+      assert.deepEqual(toFlashcardKey(...a), toFlashcardKey(...b));
+    });
+  }
+
+  it('keeps cards of different target variants apart', () => {
+    assert.notDeepEqual(toFlashcardKey('hola', 'es', 'en-US'), toFlashcardKey('hola', 'es', 'en-GB'));
+  });
+});
@@ -0,0 +1,24 @@
+// A user has one flashcard per word and pair of languages. Every way of saving a card, a lookup, the tooltip's save
+// button or an import, writes these columns the same way so that saving a word again counts as meeting it again.
+import { toLanguageCode } from '@extension/shared';
+
+// Codes pages use to say the language is unknown, mixed or not linguistic content
+const UNDETERMINED_LANGS = ['und', 'mul', 'zxx', 'mis'];
+
+// Flashcards store base codes in lower case, e.g. `es` for both DeepL's `ES` and a page's `es-MX`
+const normalizeLang = (lang: string | undefined) => {
+  const base = lang?.trim().split(/[-_]/)[0].toLowerCase() ?? '';
+  return /^[a-z]{2,3}$/.test(base) && !UNDETERMINED_LANGS.includes(base) ? base : 'auto';
+};
+
+/**
+ * The columns a flashcard is unique on besides its user. The language translated from is stored as a base code, the
+ * one translated to as the registry's code, since cards of `en-US` and `en-GB` translations differ.
+ */
+const toFlashcardKey = (original: string, originalLanguage: string | undefined, translationLanguage: string) => ({
+  original,
+  original_language: normalizeLang(originalLanguage),
+  translation_language: toLanguageCode(translationLanguage),
+});
+
+export { normalizeLang, toFlashcardKey };
@@ -0,0 +1,258 @@
+// Write-ahead outbox for flashcard writes. Operations that can't reach Supabase are kept in chrome.storage.local
+// and replayed in order, so words saved while offline aren't lost.
+import { ensureAuthenticated, getCurrentUserId, supabase } from './supabase.js';
+import { broadcast } from '@extension/messaging';
+import type { Flashcard, OutboxStatus } from '@extension/messaging';
+
+/** One lookup of a word on a page */
+interface FlashcardEncounter {
+  original: string;
+  translation: string;
+  context: string;
+  url: string;
+  original_language: string;
+  translation_language: string;
+  seenAt: string;
+}
+
+type FlashcardChanges = Partial<Pick<Flashcard, 'original' | 'translation' | 'context'>>;
+
+type OutboxOperation =
+  | { kind: 'encounter'; encounter: FlashcardEncounter }
+  | { kind: 'update'; id: string; changes: FlashcardChanges }
+  | { kind: 'delete'; ids: string[] }
+  | { kind: 'clear' };
+
+interface OutboxEntry {
+  id: string;
+  userId: string;
+  operation: OutboxOperation;
+  createdAt: number;
+  attempts: number;
+  /** Epoch millis before which the entry isn't retried */
+  nextAttemptAt: number;
+}
+
+interface OperationResult {
+  rows: Flashcard[];
+  count: number;
+}
+
+const STORAGE_KEY = 'flashcardOutbox';
+const ALARM_NAME = 'flashcard-outbox';
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+
+const FLASHCARD_COLUMNS =
+  'id, original, translation, date, url, context, original_language, translation_language, encounter_count, contexts, urls, first_seen, last_seen';
+
+const BROADCAST_ACTIONS = {
+  encounter: 'saved',
+  update: 'updated',
+  delete: 'deleted',
+  clear: 'cleared',
+} as const;
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+let sendQueue: Promise<unknown> = Promise.resolve();
+let flushing: Promise<void> | null = null;
+
+const readEntries = async (): Promise<OutboxEntry[]> => {
+  const { [STORAGE_KEY]: entries } = await chrome.storage.local.get(STORAGE_KEY);
+  return entries ?? [];
+};
+
+// Read-modify-write cycles are chained so that concurrent saves can't drop each other's entries
+const updateEntries = (update: (entries: OutboxEntry[]) => OutboxEntry[]) => {
+  const write = writeQueue.then(async () => {
+    const entries = update(await readEntries());
+    await chrome.storage.local.set({ [STORAGE_KEY]: entries });
+    return entries;
+  });
+  writeQueue = write.catch(err => console.error('Outbox write error:', err));
+  return write;
+};
+
+// Writes sent right away and replays of the outbox take turns, so no write reaches Supabase before one submitted earlier
+const inTurn = <T>(send: () => Promise<T>) => {
+  const turn = sendQueue.then(send);
+  sendQueue = turn.catch(() => undefined);
+  return turn;
+};
+
+const notifyPending = (entries: OutboxEntry[]) => broadcast({ type: 'outboxUpdated', pending: entries.length });
+
+// Network failures, timeouts, rate limits, expired tokens and server errors can succeed later; anything else
+// (constraint violations, malformed rows) would fail forever and block the entries behind it
+const isRetryable = (status: number) =>
+  status === 0 || status === 401 || status === 408 || status === 429 || status >= 500;
+
+const getBackoffDelay = (attempts: number) => {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+  // Jitter keeps several browsers of the same user from retrying in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// There's one card per word and language pair. The database adds it or bumps its counter in one statement, so the same
+// word looked up in two frames at once still makes one card, and an edited translation isn't overwritten.
+const recordEncounter = ({ seenAt, ...card }: FlashcardEncounter) =>
+  supabase
+    .rpc('record_flashcard_encounter', {
+      p_original: card.original,
+      p_translation: card.translation,
+      p_context: card.context,
+      p_url: card.url,
+      p_original_language: card.original_language,
+      p_translation_language: card.translation_language,
+      p_seen_at: seenAt,
+    })
+    .select(FLASHCARD_COLUMNS);
+
+const execute = async (userId: string, operation: OutboxOperation) => {
+  const table = supabase.from('flashcards');
+
+  switch (operation.kind) {
+    case 'encounter':
+      return recordEncounter(operation.encounter);
+    case 'update':
+      return table.update(operation.changes).eq('user_id', userId).eq('id', operation.id).select(FLASHCARD_COLUMNS);
+    case 'delete':
+      return table.delete({ count: 'exact' }).eq('user_id', userId).in('id', operation.ids);
+    case 'clear':
+      return table.delete({ count: 'exact' }).eq('user_id', userId);
+  }
+};
+
+// Runs one operation. Returns null when it failed in a way worth retrying, throws when it never will succeed.
+const run = async (userId: string, operation: OutboxOperation): Promise<OperationResult | null> => {
+  const { data, count, error, status } = await execute(userId, operation);
+
+  if (error) {
+    if (isRetryable(status)) {
+      console.log(`Flashcard ${operation.kind} failed (${status}), keeping it in the outbox:`, error.message);
+      return null;
+    }
+    throw error;
+  }
+
+  const rows = (data ?? []) as Flashcard[];
+  const ids =
+    operation.kind === 'delete'
+      ? operation.ids
+      : operation.kind === 'update'
+        ? [operation.id]
+        : rows.flatMap(row => (row.id ? [row.id] : []));
+  await broadcast({ type: 'flashcardsUpdated', action: BROADCAST_ACTIONS[operation.kind], ids });
+
+  return { rows, count: count ?? rows.length };
+};
+
+// An operation that already failed once starts out backed off
+const enqueue = async (userId: string, operation: OutboxOperation, failed: boolean) => {
+  const now = Date.now();
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    userId,
+    operation,
+    createdAt: now,
+    attempts: failed ? 1 : 0,
+    nextAttemptAt: failed ? now + getBackoffDelay(1) : now,
+  };
+
+  await notifyPending(await updateEntries(entries => [...entries, entry]));
+};
+
+const replay = async () => {
+  if (!(await ensureAuthenticated())) return;
+  const userId = await getCurrentUserId();
+  if (!userId) return;
+
+  // Entries are replayed strictly in order; the first one that can't go through yet holds back the rest
+  for (const entry of await readEntries()) {
+    // Writes of other accounts wait until that account signs in again
+    if (entry.userId !== userId) continue;
+    if (entry.nextAttemptAt > Date.now()) return;
+
+    let result: OperationResult | null;
+    try {
+      result = await run(userId, entry.operation);
+    } catch (err) {
+      console.error('Dropping flashcard write the server rejected:', entry.operation, err);
+      result = { rows: [], count: 0 };
+    }
+
+    if (!result) {
+      const attempts = entry.attempts + 1;
+      await updateEntries(entries =>
+        entries.map(e =>
+          e.id === entry.id ? { ...e, attempts, nextAttemptAt: Date.now() + getBackoffDelay(attempts) } : e,
+        ),
+      );
+      return;
+    }
+
+    await notifyPending(await updateEntries(entries => entries.filter(e => e.id !== entry.id)));
+  }
+};
+
+const replayLogged = () => replay().catch(err => console.error('Outbox replay error:', err));
+
+/**
+ * Replays due entries, in turn with writes being submitted. Concurrent calls share one pass.
+ */
+const flush = () => {
+  flushing ??= inTurn(replayLogged).finally(() => {
+    flushing = null;
+  });
+  return flushing;
+};
+
+/**
+ * Runs a write right away when the outbox has nothing queued for the user, otherwise or when Supabase can't be reached
+ * queues it behind the pending ones. Resolves to null when the write was queued.
+ */
+const submit = (userId: string, operation: OutboxOperation): Promise<OperationResult | null> =>
+  inTurn(async () => {
+    const entries = await readEntries();
+
+    if (!entries.some(entry => entry.userId === userId)) {
+      const result = await run(userId, operation).catch(err => {
+        // fetch itself rejects on some network failures instead of resolving with status 0
+        if (err instanceof TypeError) return null;
+        throw err;
+      });
+      if (result) return result;
+
+      await enqueue(userId, operation, true);
+      return null;
+    }
+
+    // Replayed within this turn; going through flush would wait for the turn to end
+    await enqueue(userId, operation, false);
+    await replayLogged();
+
+    // The queue may have drained including this write, but its result went to the broadcast
+    return null;
+  });
+
+const getStatus = async (): Promise<OutboxStatus> => ({ pending: (await readEntries()).length });
+
+// Alarms survive service worker shutdowns, unlike timers
+const start = () => {
+  chrome.alarms.create(ALARM_NAME, { periodInMinutes: 1 });
+  chrome.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === ALARM_NAME) flush();
+  });
+
+  // Coming back online retries right away, ignoring the backoff
+  self.addEventListener('online', async () => {
+    await updateEntries(entries => entries.map(entry => ({ ...entry, nextAttemptAt: 0 })));
+    flush();
+  });
+
+  flush();
+};
+
+export { FLASHCARD_COLUMNS };
+
+export const flashcardOutbox = { submit, flush, getStatus, start };
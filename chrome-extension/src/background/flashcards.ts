@@ -0,0 +1,276 @@
+// Supabase flashcards table helpers and the flashcards message API
+import { toFlashcardKey } from './flashcard-key.js';
+import { FLASHCARD_COLUMNS, flashcardOutbox } from './flashcard-outbox.js';
+import { ensureAuthenticated, getCurrentUserId, getStoredSessionData, supabase } from './supabase.js';
+import { MessageError, MessageErrorCodeEnum } from '@extension/messaging';
+import type { Flashcard, FlashcardPage, RequestPayload, VocabularyEntry } from '@extension/messaging';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+// Every page load asks for the vocabulary, so it is kept for a while and dropped on changes made here
+const VOCABULARY_TTL_MS = 5 * 60 * 1000;
+const MAX_VOCABULARY_SIZE = 5000;
+
+let vocabularyCache: { userId: string; fetchedAt: number; entries: VocabularyEntry[] } | null = null;
+
+// While offline the session can't be refreshed, so fall back to the remembered user and let the outbox hold the writes
+const resolveUserId = async (): Promise<string | null> =>
+  ((await ensureAuthenticated()) ? await getCurrentUserId() : null) ?? (await getStoredSessionData())?.user?.id ?? null;
+
+const requireUserId = async () => {
+  const userId = await resolveUserId();
+  if (!userId) {
+    throw new MessageError(MessageErrorCodeEnum.Unauthenticated, 'Sign in to manage flashcards');
+  }
+  return userId;
+};
+
+// Every flashcard write goes through here so the vocabulary is reloaded after it
+const submit = (...args: Parameters<typeof flashcardOutbox.submit>) => {
+  vocabularyCache = null;
+  return flashcardOutbox.submit(...args);
+};
+
+// Strips characters that have a meaning in PostgREST filter strings and escapes LIKE wildcards
+const toLikePattern = (value: string) => `%${value.replace(/[,()]/g, ' ').replace(/[%_\\]/g, m => `\\${m}`)}%`;
+
+// Helper: save to Supabase flashcards table with real user ID
+export const saveTranslation = async (
+  original: string,
+  translation: string,
+  url: string = '',
+  targetLang: string,
+  contextText: string = '',
+  originalLang: string = 'auto',
+  translationLang: string = '',
+): Promise<Flashcard | null> => {
+  try {
+    const userId = await resolveUserId();
+    if (!userId) {
+      console.log('User not authenticated, skipping save to Supabase');
+      return null;
+    }
+
+    // Use targetLang if translationLang is empty
+    const finalTranslationLang = translationLang || targetLang;
+
+    console.log('Saving translation:', {
+      original,
+      translation,
+      originalLang,
+      translationLang: finalTranslationLang,
+      context: contextText,
+    });
+
+    // Goes through the outbox so the word is kept and retried when Supabase can't be reached
+    const result = await submit(userId, {
+      kind: 'encounter',
+      encounter: {
+        ...toFlashcardKey(original, originalLang, finalTranslationLang),
+        context: contextText,
+        translation,
+        url,
+        seenAt: new Date().toISOString(),
+      },
+    });
+
+    console.log(result ? 'Saved translation to Supabase:' : 'Queued translation for saving:', result?.rows ?? original);
+    return result?.rows[0] ?? null;
+  } catch (err) {
+    console.error('saveTranslation error:', err);
+    return null;
+  }
+};
+
+// Helper: check Supabase flashcards table for existing translation
+export const checkSupabaseCache = async (
+  text: string,
+  targetLang: string,
+  sourceLang: string = 'auto',
+): Promise<{ translation: string; originalLanguage: string } | null> => {
+  try {
+    const isAuthenticated = await ensureAuthenticated();
+
+    if (!isAuthenticated) {
+      console.log('User not authenticated, skipping Supabase cache check');
+      return null;
+    }
+
+    const userId = await getCurrentUserId();
+
+    if (!userId) {
+      console.log('No user ID after authentication check, skipping cache');
+      return null;
+    }
+
+    let query = supabase
+      .from('flashcards')
+      .select('translation, original_language')
+      .eq('original', text)
+      .eq('user_id', userId)
+      // Rows saved before the language registry have the code in lower case, e.g. `en-us`
+      .ilike('translation_language', targetLang);
+    if (sourceLang !== 'auto') {
+      query = query.ilike('original_language', sourceLang);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(1).single();
+
+    if (error) {
+      console.log('No cached translation in Supabase:', error.message);
+      return null;
+    }
+
+    return { translation: data.translation, originalLanguage: data.original_language || sourceLang };
+  } catch (err) {
+    console.error('Supabase cache check error:', err);
+    return null;
+  }
+};
+
+export const listFlashcards = async ({
+  limit = DEFAULT_PAGE_SIZE,
+  offset = 0,
+  search,
+  originalLanguage,
+  translationLanguage,
+  site,
+}: RequestPayload<'flashcards.list'>): Promise<FlashcardPage> => {
+  const userId = await requireUserId();
+  const pageSize = Math.min(Math.max(1, Math.floor(limit)), MAX_PAGE_SIZE);
+  const from = Math.max(0, Math.floor(offset));
+
+  let query = supabase.from('flashcards').select(FLASHCARD_COLUMNS, { count: 'exact' }).eq('user_id', userId);
+
+  if (search?.trim()) {
+    const pattern = toLikePattern(search.trim());
+    query = query.or(`original.ilike.${pattern},translation.ilike.${pattern}`);
+  }
+  if (originalLanguage) {
+    query = query.ilike('original_language', originalLanguage);
+  }
+  if (translationLanguage) {
+    query = query.ilike('translation_language', translationLanguage);
+  }
+  if (site?.trim()) {
+    query = query.ilike('url', toLikePattern(site.trim()));
+  }
+
+  const { data, count, error } = await query.order('date', { ascending: false }).range(from, from + pageSize - 1);
+
+  if (error) throw error;
+
+  return { items: data as Flashcard[], total: count ?? data.length };
+};
+
+export const getFlashcard = async ({ id }: RequestPayload<'flashcards.get'>): Promise<Flashcard> => {
+  const userId = await requireUserId();
+
+  const { data, error } = await supabase
+    .from('flashcards')
+    .select(FLASHCARD_COLUMNS)
+    .eq('user_id', userId)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new MessageError(MessageErrorCodeEnum.NotFound, `Flashcard ${id} not found`);
+  }
+
+  return data as Flashcard;
+};
+
+export const saveFlashcard = async ({
+  original,
+  translation,
+  url = '',
+  context = '',
+  originalLanguage = 'auto',
+  translationLanguage,
+}: RequestPayload<'flashcards.save'>): Promise<Flashcard | null> => {
+  const userId = await requireUserId();
+
+  const result = await submit(userId, {
+    kind: 'encounter',
+    encounter: {
+      // Callers may pass a provider's or an older code, like `ES` or `EN-US`
+      ...toFlashcardKey(original, originalLanguage, translationLanguage),
+      translation,
+      url,
+      context,
+      seenAt: new Date().toISOString(),
+    },
+  });
+  return result?.rows[0] ?? null;
+};
+
+export const updateFlashcard = async ({
+  id,
+  ...changes
+}: RequestPayload<'flashcards.update'>): Promise<Flashcard | null> => {
+  const userId = await requireUserId();
+
+  const result = await submit(userId, { kind: 'update', id, changes });
+  if (!result) return null;
+
+  if (result.rows.length === 0) {
+    throw new MessageError(MessageErrorCodeEnum.NotFound, `Flashcard ${id} not found`);
+  }
+  return result.rows[0];
+};
+
+export const deleteFlashcard = async ({ id }: RequestPayload<'flashcards.delete'>) => {
+  const userId = await requireUserId();
+
+  await submit(userId, { kind: 'delete', ids: [id] });
+};
+
+export const bulkDeleteFlashcards = async ({ ids }: RequestPayload<'flashcards.bulkDelete'>) => {
+  const userId = await requireUserId();
+
+  if (ids.length === 0) {
+    return { deleted: 0 };
+  }
+
+  const result = await submit(userId, { kind: 'delete', ids });
+  return { deleted: result ? result.count : ids.length };
+};
+
+export const clearAllFlashcards = async () => {
+  const userId = await requireUserId();
+
+  await submit(userId, { kind: 'clear' });
+};
+
+/**
+ * Originals and translations of the user's most recent flashcards, for highlighting them on pages.
+ */
+export const getVocabulary = async (): Promise<VocabularyEntry[]> => {
+  const userId = await resolveUserId();
+  if (!userId) return [];
+  if (vocabularyCache?.userId === userId && Date.now() - vocabularyCache.fetchedAt < VOCABULARY_TTL_MS) {
+    return vocabularyCache.entries;
+  }
+
+  const { data, error } = await supabase
+    .from('flashcards')
+    .select('original, translation, original_language')
+    .eq('user_id', userId)
+    .order('date', { ascending: false })
+    .limit(MAX_VOCABULARY_SIZE);
+
+  if (error) {
+    // Offline, keep highlighting what was known
+    console.error('Failed to load vocabulary:', error.message);
+    return vocabularyCache?.userId === userId ? vocabularyCache.entries : [];
+  }
+
+  const entries = (data as Pick<Flashcard, 'original' | 'translation' | 'original_language'>[]).map(row => ({
+    original: row.original,
+    translation: row.translation,
+    originalLanguage: row.original_language,
+  }));
+  vocabularyCache = { userId, fetchedAt: Date.now(), entries };
+  return entries;
+};
@@ -0,0 +1,23 @@
+// Language settings saved before the language registry hold the popup's old DeepL codes, like `EN-US`, `ES-XL` or
+// `NO`, and are rewritten to registry codes when the extension is installed or updated
+import { toLanguageCode } from '@extension/shared';
+import { sourceLanguageStorage } from '@extension/storage';
+
+// The popup offered these as "Chinese (simplified)" and "Portuguese", which DeepL took as those variants
+const LEGACY_TARGET_CODES: Record<string, string> = { ZH: 'zh-Hans', PT: 'pt-PT' };
+
+const toTargetCode = (code: string) => LEGACY_TARGET_CODES[code] ?? toLanguageCode(code);
+
+export const migrateLanguageSettings = async () => {
+  const { targetLang } = await chrome.storage.local.get('targetLang');
+  if (typeof targetLang === 'string' && toTargetCode(targetLang) !== targetLang) {
+    await chrome.storage.local.set({ targetLang: toTargetCode(targetLang) });
+  }
+
+  await sourceLanguageStorage.set(({ sourceLang, siteOverrides }) => ({
+    sourceLang: sourceLang === 'auto' ? sourceLang : toLanguageCode(sourceLang),
+    siteOverrides: Object.fromEntries(
+      Object.entries(siteOverrides).map(([host, lang]) => [host, toLanguageCode(lang)]),
+    ),
+  }));
+};
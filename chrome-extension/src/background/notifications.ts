@@ -0,0 +1,8 @@
+// Messages for pages the content script can't show anything in, like the Web Store or the PDF viewer
+export const notify = (title: string, message: string) =>
+  chrome.notifications.create({
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icon.png'),
+    title,
+    message,
+  });
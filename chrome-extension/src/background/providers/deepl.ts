@@ -0,0 +1,69 @@
+import { toProviderCode } from '@extension/shared';
+import type { ProviderOptions, TranslationProvider, TranslationResult } from './types.js';
+
+const DEEPL_FREE_ENDPOINT = 'https://api-free.deepl.com/v2/translate';
+const DEEPL_PRO_ENDPOINT = 'https://api.deepl.com/v2/translate';
+
+interface DeepLResponse {
+  translations?: { text: string; detected_source_language?: string }[];
+  message?: string;
+}
+
+interface DeepLRequest {
+  texts: string[];
+  targetLang: string;
+  sourceLang?: string;
+  context?: string;
+}
+
+export const createDeepLProvider = (
+  plan: 'free' | 'pro',
+  { endpoint, apiKey }: ProviderOptions,
+): TranslationProvider => {
+  const id = plan === 'free' ? 'deepl-free' : 'deepl-pro';
+
+  // DeepL takes any number of `text` parameters and answers with a translation for each, in order
+  const request = async ({ texts, targetLang, sourceLang, context }: DeepLRequest): Promise<TranslationResult[]> => {
+    if (!apiKey) {
+      throw new Error('API key not configured');
+    }
+
+    const params = new URLSearchParams();
+    texts.forEach(text => params.append('text', text));
+    params.append('target_lang', toProviderCode(targetLang, id, 'target') ?? targetLang.toUpperCase());
+    if (sourceLang && sourceLang !== 'auto') {
+      // DeepL only accepts base language codes as source, e.g. `EN` rather than `EN-US`
+      params.append('source_lang', toProviderCode(sourceLang, id, 'source') ?? sourceLang.split('-')[0].toUpperCase());
+    }
+    if (context) {
+      params.append('context', context);
+    }
+
+    const resp = await fetch(endpoint || (plan === 'free' ? DEEPL_FREE_ENDPOINT : DEEPL_PRO_ENDPOINT), {
+      method: 'POST',
+      headers: {
+        Authorization: `DeepL-Auth-Key ${apiKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params.toString(),
+    });
+
+    const data: DeepLResponse = await resp.json().catch(() => ({}));
+
+    if (!resp.ok || !data.translations || data.translations.length !== texts.length) {
+      throw new Error(data.message || `DeepL request failed with status ${resp.status}`);
+    }
+
+    return data.translations.map(({ text, detected_source_language }) => ({
+      translation: text,
+      detectedSourceLang: detected_source_language || 'auto',
+    }));
+  };
+
+  return {
+    id,
+    translate: async ({ text, ...options }) => (await request({ texts: [text], ...options }))[0],
+    translateBatch: async ({ texts, targetLang, sourceLang }) =>
+      texts.length ? request({ texts, targetLang, sourceLang }) : [],
+  };
+};
@@ -0,0 +1,33 @@
+import { createDeepLProvider } from './deepl.js';
+import { createLibreTranslateProvider } from './libre-translate.js';
+import { createMockProvider } from './mock.js';
+import { translatorSettingsStorage } from '@extension/storage';
+import type { TranslationProvider } from './types.js';
+import type { TranslatorSettingsStateType } from '@extension/storage';
+
+const ENV_API_KEY =
+  process.env.CEB_API_KEY && process.env.CEB_API_KEY !== 'undefined' ? process.env.CEB_API_KEY.trim() : '';
+
+export const createProvider = ({ provider, endpoints, apiKeys }: TranslatorSettingsStateType): TranslationProvider => {
+  const endpoint = endpoints[provider] || undefined;
+  const apiKey = apiKeys[provider] || undefined;
+
+  switch (provider) {
+    case 'deepl-pro':
+      return createDeepLProvider('pro', { endpoint, apiKey: apiKey || ENV_API_KEY });
+    case 'libretranslate':
+      return createLibreTranslateProvider({ endpoint, apiKey });
+    case 'mock':
+      return createMockProvider();
+    case 'deepl-free':
+    default:
+      return createDeepLProvider('free', { endpoint, apiKey: apiKey || ENV_API_KEY });
+  }
+};
+
+/**
+ * Builds the provider selected in settings. Called per request so settings changes apply without a reload.
+ */
+export const getActiveProvider = async () => createProvider(await translatorSettingsStorage.get());
+
+export type * from './types.js';
@@ -0,0 +1,72 @@
+import { toProviderCode } from '@extension/shared';
+import type { ProviderOptions, TranslationProvider } from './types.js';
+import type { LanguageRoleType } from '@extension/shared';
+
+const LIBRE_TRANSLATE_ENDPOINT = 'https://libretranslate.com';
+
+interface DetectedLanguage {
+  language: string;
+  confidence: number;
+}
+
+// Fields are arrays when the request had an array of texts
+interface LibreTranslateResponse<T> {
+  translatedText?: T;
+  detectedLanguage?: T extends string[] ? DetectedLanguage[] : DetectedLanguage;
+  error?: string;
+}
+
+/**
+ * LibreTranslate's code for a language, from the registry; others are reduced to their base code, e.g. `pt` for `pt-AO`.
+ */
+const toLibreTranslateCode = (lang: string, role: LanguageRoleType) =>
+  toProviderCode(lang, 'libretranslate', role) ?? lang.split('-')[0].toLowerCase();
+
+export const createLibreTranslateProvider = ({ endpoint, apiKey }: ProviderOptions): TranslationProvider => {
+  const request = async <T>(q: string | string[], targetLang: string, sourceLang?: string) => {
+    const baseUrl = (endpoint || LIBRE_TRANSLATE_ENDPOINT).replace(/\/+$/, '');
+
+    const resp = await fetch(`${baseUrl}/translate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        q,
+        source: sourceLang && sourceLang !== 'auto' ? toLibreTranslateCode(sourceLang, 'source') : 'auto',
+        target: toLibreTranslateCode(targetLang, 'target'),
+        format: 'text',
+        ...(apiKey ? { api_key: apiKey } : {}),
+      }),
+    });
+
+    const data: LibreTranslateResponse<T> = await resp.json().catch(() => ({}));
+
+    if (!resp.ok || data.translatedText === undefined) {
+      throw new Error(data.error || `LibreTranslate request failed with status ${resp.status}`);
+    }
+    return data;
+  };
+
+  return {
+    id: 'libretranslate',
+    translate: async ({ text, targetLang, sourceLang }) => {
+      const data = await request<string>(text, targetLang, sourceLang);
+      return {
+        translation: data.translatedText ?? '',
+        detectedSourceLang: data.detectedLanguage?.language || sourceLang || 'auto',
+      };
+    },
+    // An array of texts comes back as arrays of translations and detected languages, in order
+    translateBatch: async ({ texts, targetLang, sourceLang }) => {
+      if (!texts.length) return [];
+      const data = await request<string[]>(texts, targetLang, sourceLang);
+      const translations = data.translatedText ?? [];
+      if (translations.length !== texts.length) {
+        throw new Error('LibreTranslate returned a different number of translations');
+      }
+      return translations.map((translation, i) => ({
+        translation,
+        detectedSourceLang: data.detectedLanguage?.[i]?.language || sourceLang || 'auto',
+      }));
+    },
+  };
+};
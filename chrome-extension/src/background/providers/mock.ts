@@ -0,0 +1,19 @@
+import type { TranslationProvider } from './types.js';
+
+/**
+ * Offline provider for development and testing without an API key.
+ * The output is deterministic, so the same input always produces the same "translation".
+ */
+export const createMockProvider = (): TranslationProvider => {
+  const translate = (text: string, targetLang: string, sourceLang?: string) => ({
+    translation: `[${targetLang.toUpperCase()}] ${text.split('').reverse().join('')}`,
+    detectedSourceLang: sourceLang || 'auto',
+  });
+
+  return {
+    id: 'mock',
+    translate: async ({ text, targetLang, sourceLang }) => translate(text, targetLang, sourceLang),
+    translateBatch: async ({ texts, targetLang, sourceLang }) =>
+      texts.map(text => translate(text, targetLang, sourceLang)),
+  };
+};
@@ -0,0 +1,41 @@
+import type { TranslationProviderIdType } from '@extension/storage';
+
+export interface TranslationRequest {
+  text: string;
+  /** Target language as a registry code, e.g. `en-US`; providers map it to their own codes. */
+  targetLang: string;
+  /** Source language code, omitted for auto-detection. */
+  sourceLang?: string;
+  /**
+   * Surrounding text used to disambiguate `text`. It is not translated itself,
+   * and providers without context support ignore it.
+   */
+  context?: string;
+}
+
+/**
+ * Several texts translated in one request, like the paragraphs of a page. They share languages and have no context.
+ */
+export interface TranslationBatchRequest {
+  texts: string[];
+  targetLang: string;
+  sourceLang?: string;
+}
+
+export interface TranslationResult {
+  translation: string;
+  /** Source language reported by the provider, `auto` when it doesn't report one. */
+  detectedSourceLang: string;
+}
+
+export interface TranslationProvider {
+  readonly id: TranslationProviderIdType;
+  translate: (request: TranslationRequest) => Promise<TranslationResult>;
+  /** Results are in the order of the texts */
+  translateBatch: (request: TranslationBatchRequest) => Promise<TranslationResult[]>;
+}
+
+export interface ProviderOptions {
+  endpoint?: string;
+  apiKey?: string;
+}
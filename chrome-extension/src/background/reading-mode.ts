@@ -0,0 +1,43 @@
+// "Translate this page": the reading mode script is injected into a tab's top frame on request only, from the
+// context menu, the keyboard shortcut or the popup. Asked again in the same page, the script already there reverts
+// the page instead.
+import { notify } from './notifications.js';
+import { getSiteState } from './site-access.js';
+import { MessageError, MessageErrorCodeEnum } from '@extension/messaging';
+import type { RequestPayload } from '@extension/messaging';
+
+const READING_MODE_SCRIPT = 'content-runtime/reading.iife.js';
+
+const inject = async (tab: chrome.tabs.Tab) => {
+  if (tab.id === undefined) return;
+  const { enabled } = await getSiteState(tab.url ?? '');
+  if (!enabled) {
+    throw new MessageError(MessageErrorCodeEnum.ExtensionDisabled, 'The extension is off on this page');
+  }
+  await chrome.scripting.executeScript({ target: { tabId: tab.id }, files: [READING_MODE_SCRIPT] });
+};
+
+// Scripts running in a tab, content scripts included, only get to toggle their own tab. Any tab can be named by the
+// extension's own pages, like the popup, which aren't in one.
+const getTargetTabId = ({ tabId }: RequestPayload<'readingMode.toggle'>, sender: chrome.runtime.MessageSender) => {
+  if (sender.tab?.id !== undefined) return sender.tab.id;
+  if (sender.id === chrome.runtime.id && sender.url?.startsWith(chrome.runtime.getURL(''))) return tabId;
+  throw new MessageError(MessageErrorCodeEnum.Forbidden, 'Reading mode can only be started from the extension');
+};
+
+export const handleToggleReadingMode = async (
+  message: RequestPayload<'readingMode.toggle'>,
+  sender: chrome.runtime.MessageSender,
+) => inject(await chrome.tabs.get(getTargetTabId(message, sender)));
+
+/**
+ * Starts or reverts reading mode in the tab, with a notification when the page can't have it.
+ */
+export const toggleReadingMode = async (tab?: chrome.tabs.Tab) => {
+  if (!tab) return;
+  try {
+    await inject(tab);
+  } catch (err) {
+    await notify("Couldn't translate this page", err instanceof Error ? err.message : String(err));
+  }
+};
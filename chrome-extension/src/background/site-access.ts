@@ -0,0 +1,86 @@
+// Where the extension runs: the global switch, the block and allow lists and a pause. The toolbar badge shows the
+// state for each tab.
+import { getSiteAccess } from '@extension/shared';
+import { siteAccessStorage } from '@extension/storage';
+import type { SiteAccessReasonType, SiteAccessType } from '@extension/shared';
+
+const PAUSE_ALARM_NAME = 'site-access-pause-end';
+const SITE_ACCESS_STORAGE_KEY = 'site-access-storage-key';
+
+const BADGES: Record<SiteAccessReasonType, { text: string; color: string; title: string }> = {
+  disabled: { text: 'OFF', color: '#9e9e9e', title: 'Switched off' },
+  paused: { text: 'II', color: '#f9a825', title: 'Paused' },
+  blocked: { text: 'OFF', color: '#9e9e9e', title: 'Off on this site' },
+  'not-allowed': { text: 'OFF', color: '#9e9e9e', title: 'Not on the allow list' },
+};
+
+const getSiteState = async (url: string): Promise<SiteAccessType> => {
+  const [{ enabled }, access] = await Promise.all([
+    chrome.storage.local.get({ enabled: true }),
+    siteAccessStorage.get(),
+  ]);
+  return getSiteAccess(url, access, Boolean(enabled));
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const updateBadge = async (tab: chrome.tabs.Tab) => {
+  if (tab.id === undefined) return;
+
+  const { reason } = await getSiteState(tab.url ?? '');
+  const badge = reason && BADGES[reason];
+  let title = badge ? `Highlight Translator: ${badge.title}` : 'Highlight Translator';
+  if (reason === 'paused') {
+    const { pausedUntil } = await siteAccessStorage.get();
+    title += ` until ${formatTime(pausedUntil)}`;
+  }
+
+  // The tab may have closed in the meantime
+  try {
+    await chrome.action.setBadgeText({ tabId: tab.id, text: badge?.text ?? '' });
+    if (badge) await chrome.action.setBadgeBackgroundColor({ tabId: tab.id, color: badge.color });
+    await chrome.action.setTitle({ tabId: tab.id, title });
+  } catch {
+    // Nothing to show it on
+  }
+};
+
+const updateAllBadges = async () => {
+  const tabs = await chrome.tabs.query({});
+  await Promise.all(tabs.map(updateBadge));
+};
+
+// An alarm rather than a timer, the service worker may be stopped before the pause ends
+const schedulePauseEnd = async () => {
+  const { pausedUntil } = await siteAccessStorage.get();
+  if (pausedUntil > Date.now()) {
+    await chrome.alarms.create(PAUSE_ALARM_NAME, { when: pausedUntil });
+  } else {
+    await chrome.alarms.clear(PAUSE_ALARM_NAME);
+    if (pausedUntil) await siteAccessStorage.setPausedUntil(0);
+  }
+};
+
+/**
+ * Keeps the badges current as tabs navigate and the settings change, and ends pauses on time.
+ */
+const start = () => {
+  chrome.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+    if (changeInfo.url || changeInfo.status === 'loading') updateBadge(tab);
+  });
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'local' || !(changes.enabled || changes[SITE_ACCESS_STORAGE_KEY])) return;
+    updateAllBadges();
+    if (changes[SITE_ACCESS_STORAGE_KEY]) schedulePauseEnd();
+  });
+  chrome.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === PAUSE_ALARM_NAME) siteAccessStorage.setPausedUntil(0);
+  });
+
+  updateAllBadges();
+  schedulePauseEnd();
+};
+
+const siteAccess = { start };
+
+export { getSiteState, siteAccess };
@@ -0,0 +1,97 @@
+// Subscription tier and plan entitlements
+import { getCurrentUserId, supabase } from './supabase.js';
+import { selectionSettingsStorage } from '@extension/storage';
+import type { Entitlements, SelectionLimits, SubscriptionStatus, SubscriptionTier } from '@extension/messaging';
+
+interface CachedSubscription {
+  userId: string;
+  checkedAt: number;
+  status: SubscriptionStatus;
+}
+
+interface CheckSubscriptionResponse {
+  subscribed?: boolean;
+  product_id?: string;
+  subscription_end?: string;
+}
+
+const SUBSCRIPTION_STORAGE_KEY = 'subscriptionStatus';
+// Tier changes are rare; re-check with the server at most this often
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const PRODUCT_TIERS: Record<string, SubscriptionTier> = {
+  prod_TdgBRg4vUcghkL: 'pro',
+  prod_TdgB3FcPDfpXCJ: 'premium',
+};
+
+const PLAN_ENTITLEMENTS: Record<SubscriptionTier, Entitlements> = {
+  anonymous: { monthlyCharacters: 500, maxSelectionLength: 50, maxContextLength: 300 },
+  free: { monthlyCharacters: 2_000, maxSelectionLength: 200, maxContextLength: 500 },
+  pro: { monthlyCharacters: 100_000, maxSelectionLength: 2_000, maxContextLength: 1_000 },
+  premium: { monthlyCharacters: 500_000, maxSelectionLength: 5_000, maxContextLength: 2_000 },
+};
+
+const toStatus = (tier: SubscriptionTier, details: Partial<SubscriptionStatus> = {}): SubscriptionStatus => ({
+  subscribed: false,
+  ...details,
+  tier,
+  entitlements: PLAN_ENTITLEMENTS[tier],
+});
+
+const getCachedSubscription = async (userId: string): Promise<CachedSubscription | null> => {
+  const { [SUBSCRIPTION_STORAGE_KEY]: cached } = await chrome.storage.local.get(SUBSCRIPTION_STORAGE_KEY);
+  return cached?.userId === userId ? cached : null;
+};
+
+// Asks the Stripe-backed edge function which product the user is subscribed to
+const fetchSubscription = async (): Promise<SubscriptionStatus> => {
+  const { data, error } = await supabase.functions.invoke<CheckSubscriptionResponse>('check-subscription');
+  if (error) throw error;
+
+  const productId = data?.product_id;
+  const tier = (data?.subscribed && productId && PRODUCT_TIERS[productId]) || 'free';
+
+  return toStatus(tier, {
+    subscribed: !!data?.subscribed,
+    productId,
+    subscriptionEnd: data?.subscription_end,
+  });
+};
+
+export const getSubscription = async ({ force = false } = {}): Promise<SubscriptionStatus> => {
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return toStatus('anonymous');
+  }
+
+  const cached = await getCachedSubscription(userId);
+  // Entitlements are taken from the current plan table rather than the cache, which may predate changes to it
+  if (!force && cached && Date.now() - cached.checkedAt < CHECK_INTERVAL_MS) {
+    return toStatus(cached.status.tier, cached.status);
+  }
+
+  try {
+    const status = await fetchSubscription();
+    await chrome.storage.local.set({
+      [SUBSCRIPTION_STORAGE_KEY]: { userId, checkedAt: Date.now(), status } satisfies CachedSubscription,
+    });
+    return status;
+  } catch (err) {
+    // Keep the last known tier while offline rather than downgrading a paying user
+    console.error('Subscription check error:', err);
+    return toStatus(cached?.status.tier ?? 'free', cached?.status);
+  }
+};
+
+// The popup asks explicitly, so it always gets a fresh answer
+export const handleCheckSubscription = () => getSubscription({ force: true });
+
+// Settings can lower what the plan allows, not raise it
+export const getSelectionLimits = async (): Promise<SelectionLimits> => {
+  const [{ entitlements }, settings] = await Promise.all([getSubscription(), selectionSettingsStorage.get()]);
+  return {
+    maxSelectionLength: Math.min(settings.maxSelectionLength, entitlements.maxSelectionLength),
+    maxContextLength: Math.min(settings.maxContextLength, entitlements.maxContextLength),
+    savePassages: settings.savePassages,
+  };
+};
@@ -0,0 +1,194 @@
+// Supabase client and the session persistence shared by auth and flashcard sync
+import { createClient } from '@supabase/supabase-js';
+import type { Session } from '@supabase/supabase-js';
+
+const SUPABASE_KEY: string = process.env.CEB_SUPABASE_KEY || '';
+console.log('SUPABASE_KEY:', SUPABASE_KEY ? 'set' : 'not set');
+
+// Initialize Supabase client
+const supabaseUrl = 'https://bivafzwsqftbpnoomcyv.supabase.co';
+export const supabase = createClient(supabaseUrl, SUPABASE_KEY);
+
+// Store session data in chrome.storage for persistence
+export const storeSessionData = async (session: Session | null) => {
+  if (session) {
+    await chrome.storage.local.set({
+      supabaseSession: {
+        access_token: session.access_token,
+        refresh_token: session.refresh_token,
+        expires_at: session.expires_at,
+        user: session.user,
+      },
+    });
+  }
+};
+
+// Retrieve session data from chrome.storage
+export const getStoredSessionData = async () => {
+  const result = await chrome.storage.local.get('supabaseSession');
+  return result.supabaseSession || null;
+};
+
+// Clear session data from chrome.storage
+export const clearStoredSessionData = async () => {
+  await chrome.storage.local.remove(['supabaseSession', 'rememberMe']);
+};
+
+// Get current user session with proper error handling
+export const getCurrentSession = async () => {
+  try {
+    const {
+      data: { session },
+      error,
+    } = await supabase.auth.getSession();
+
+    if (error) {
+      console.error('Session error:', error);
+      return null;
+    }
+
+    return session;
+  } catch (error) {
+    console.error('Error in getCurrentSession:', error);
+    return null;
+  }
+};
+
+// Get current user ID
+export const getCurrentUserId = async (): Promise<string | null> => {
+  const session = await getCurrentSession();
+  return session?.user?.id || null;
+};
+
+// Check if session is expired
+export const isSessionExpired = (session: Pick<Session, 'expires_at'> | null): boolean => {
+  if (!session || !session.expires_at) return true;
+  const now = Math.floor(Date.now() / 1000);
+  return now >= session.expires_at;
+};
+
+// Restore session from storage and refresh if needed
+export const restoreSession = async (): Promise<boolean> => {
+  try {
+    const { rememberMe } = await chrome.storage.local.get('rememberMe');
+
+    if (!rememberMe) {
+      return false;
+    }
+
+    const storedSession = await getStoredSessionData();
+
+    if (!storedSession) {
+      console.log('No stored session found');
+      return false;
+    }
+
+    // Check if session is expired
+    if (isSessionExpired(storedSession)) {
+      console.log('Stored session expired, attempting refresh...');
+
+      // Set the expired session first
+      const { error: setSessionError } = await supabase.auth.setSession({
+        access_token: storedSession.access_token,
+        refresh_token: storedSession.refresh_token,
+      });
+
+      if (setSessionError) {
+        console.error('Error setting expired session:', setSessionError);
+        await clearStoredSessionData();
+        return false;
+      }
+
+      // Now try to refresh
+      const { data, error: refreshError } = await supabase.auth.refreshSession();
+
+      if (refreshError) {
+        console.error('Error refreshing session:', refreshError);
+        await clearStoredSessionData();
+        return false;
+      }
+
+      if (data.session) {
+        console.log('Session refreshed successfully');
+        await storeSessionData(data.session);
+        return true;
+      }
+    } else {
+      // Session is still valid, set it
+      console.log('Restoring valid session from storage');
+      const { error } = await supabase.auth.setSession({
+        access_token: storedSession.access_token,
+        refresh_token: storedSession.refresh_token,
+      });
+
+      if (error) {
+        console.error('Error restoring session:', error);
+        await clearStoredSessionData();
+        return false;
+      }
+
+      return true;
+    }
+
+    return false;
+  } catch (error) {
+    console.error('Error in restoreSession:', error);
+    return false;
+  }
+};
+
+// Refresh session periodically
+export const refreshSessionIfNeeded = async () => {
+  try {
+    const { rememberMe } = await chrome.storage.local.get('rememberMe');
+
+    if (!rememberMe) {
+      return;
+    }
+
+    const session = await getCurrentSession();
+
+    if (!session) {
+      console.log('No active session to refresh');
+      return;
+    }
+
+    // Check if session will expire soon (within 5 minutes)
+    const now = Math.floor(Date.now() / 1000);
+    const expiresSoon = (session.expires_at ?? 0) - now < 300; // 5 minutes
+
+    if (expiresSoon) {
+      console.log('Session expires soon, refreshing...');
+      const { data, error } = await supabase.auth.refreshSession();
+
+      if (error) {
+        console.error('Error refreshing session:', error);
+        // Don't clear rememberMe immediately, try to restore on next operation
+      } else if (data.session) {
+        console.log('Session refreshed successfully');
+        await storeSessionData(data.session);
+      }
+    }
+  } catch (error) {
+    console.error('Error in refreshSessionIfNeeded:', error);
+  }
+};
+
+// Ensure user is authenticated before operations
+export const ensureAuthenticated = async (): Promise<boolean> => {
+  const { rememberMe } = await chrome.storage.local.get('rememberMe');
+
+  if (!rememberMe) {
+    return false;
+  }
+
+  // First try to get current session
+  const session = await getCurrentSession();
+
+  if (session && !isSessionExpired(session)) {
+    return true;
+  }
+
+  // If no valid session, try to restore from storage
+  return await restoreSession();
+};
@@ -0,0 +1,293 @@
+// Translation flow: offline dictionaries for single words, then the persistent cache, Supabase and the active provider
+import { normalizeLang } from './flashcard-key.js';
+import { checkSupabaseCache, saveTranslation } from './flashcards.js';
+import { getActiveProvider } from './providers/index.js';
+import { getSiteState } from './site-access.js';
+import { getSelectionLimits } from './subscription.js';
+import { getCacheKey, translationCache } from './translation-cache.js';
+import { getRemainingCharacters, releaseUsage, reserveUsage } from './usage.js';
+import { dictionaryStore, isSingleWord } from '@extension/dictionary';
+import { MessageError, MessageErrorCodeEnum } from '@extension/messaging';
+import { DEFAULT_TARGET_LANGUAGE, findSiteSetting, toLanguageCode } from '@extension/shared';
+import { sourceLanguageStorage, translatorSettingsStorage } from '@extension/storage';
+import type { TranslationBatchRequest, TranslationProvider, TranslationRequest } from './providers/index.js';
+import type { DictionaryEntry } from '@extension/dictionary';
+import type { PageTranslation, RequestPayload, TranslateResult } from '@extension/messaging';
+import type { SiteAccessReasonType } from '@extension/shared';
+
+// Reading mode batches, within what providers take in a single request
+const MAX_PAGE_BATCH_TEXTS = 50;
+const MAX_PAGE_TEXT_LENGTH = 5000;
+const MAX_ALTERNATIVES = 5;
+
+const DISABLED_MESSAGES: Record<SiteAccessReasonType, string> = {
+  disabled: 'Extension is disabled',
+  paused: 'Extension is paused',
+  blocked: 'Extension is disabled on this site',
+  'not-allowed': 'This site is not on the allow list',
+};
+
+// Registry code of the language to translate to; settings may hold an older code, like DeepL's `EN-US`
+const resolveTargetLang = async (override?: string) => {
+  const { targetLang } = await chrome.storage.local.get({ targetLang: DEFAULT_TARGET_LANGUAGE });
+  return toLanguageCode(override || targetLang || DEFAULT_TARGET_LANGUAGE);
+};
+
+// The site's override wins over the user's setting, which wins over what the page declares about itself
+const resolveSourceLang = async (pageUrl: string, pageLang?: string) => {
+  const { sourceLang, siteOverrides } = await sourceLanguageStorage.get();
+  const override = findSiteSetting(pageUrl, siteOverrides);
+  if (override) return normalizeLang(override);
+  if (sourceLang !== 'auto') return normalizeLang(sourceLang);
+  return normalizeLang(pageLang);
+};
+
+// Counts a request's characters against the plan's monthly limit while the provider translates them, giving them
+// back when it fails
+const metered = async <T>(characters: number, translate: (provider: TranslationProvider) => Promise<T>) => {
+  const reservation = await reserveUsage(characters);
+  try {
+    return await translate(await getActiveProvider());
+  } catch (err) {
+    await releaseUsage(reservation);
+    throw err;
+  }
+};
+
+// Sends a request to the active provider, counting its text against the plan's monthly character limit
+const translateMetered = (request: TranslationRequest) =>
+  metered(request.text.length, provider => provider.translate(request));
+
+const assertSiteEnabled = async (pageUrl: string) => {
+  const { enabled, reason } = await getSiteState(pageUrl);
+  if (!enabled) {
+    throw new MessageError(MessageErrorCodeEnum.ExtensionDisabled, DISABLED_MESSAGES[reason ?? 'disabled']);
+  }
+};
+
+// Sends texts to the active provider in one request, counting them all against the monthly character limit
+const translateBatchMetered = (request: TranslationBatchRequest) =>
+  metered(
+    request.texts.reduce((total, text) => total + text.length, 0),
+    provider => provider.translateBatch(request),
+  );
+
+// Dictionary hits answer single words offline and without spending provider characters
+const lookupDictionary = async (word: string, sourceLang: string, targetLang: string) => {
+  try {
+    return await dictionaryStore.lookup(word, { sourceLang, targetLang });
+  } catch (err) {
+    console.error('Dictionary lookup error', err);
+    return [];
+  }
+};
+
+// Glosses of every sense but the one used as the translation, without repeats
+const getAlternatives = (dictionary: DictionaryEntry[], translation: string) => {
+  const glosses = dictionary.flatMap(entry => entry.senses.map(sense => sense.gloss));
+  return [...new Set(glosses)].filter(gloss => gloss !== translation).slice(0, MAX_ALTERNATIVES);
+};
+
+// Translates the surrounding sentence, going through the persistent cache like word lookups do
+const translateContext = async (
+  contextText: string,
+  targetLang: string,
+  sourceLang: string,
+): Promise<string | undefined> => {
+  try {
+    const cacheKey = getCacheKey(contextText, targetLang, sourceLang);
+    const cached = await translationCache.get(cacheKey);
+    if (cached) {
+      return cached.translation;
+    }
+
+    const { translation, detectedSourceLang } = await translateMetered({ text: contextText, targetLang, sourceLang });
+    await translationCache.set(cacheKey, translation, detectedSourceLang);
+    return translation;
+  } catch (err) {
+    console.error('Context translation error', err);
+    return undefined;
+  }
+};
+
+export const handleTranslate = async (
+  message: RequestPayload<'translate'>,
+  sender: chrome.runtime.MessageSender,
+): Promise<TranslateResult> => {
+  const pageUrl = message.url || sender.tab?.url || '';
+  await assertSiteEnabled(pageUrl);
+
+  const text = message.text.trim();
+  if (!text) {
+    return { translation: '' };
+  }
+
+  const targetLang = await resolveTargetLang(message.targetLang);
+  const sourceLang = message.sourceLang
+    ? normalizeLang(message.sourceLang)
+    : await resolveSourceLang(pageUrl, message.pageLang);
+
+  // Extract highlighted word and context. Text sent without a word, like a sentence shown on request, is context
+  const { maxSelectionLength, maxContextLength } = await getSelectionLimits();
+  const highlightedWord = message.highlightedWord || text;
+  const contextText = message.highlightedWord ? text.slice(0, maxContextLength) : undefined;
+  const maxLength = message.highlightedWord ? maxSelectionLength : Math.max(maxSelectionLength, maxContextLength);
+  if (highlightedWord.length > maxLength) {
+    throw new MessageError(
+      MessageErrorCodeEnum.InvalidPayload,
+      `Selections are limited to ${maxLength} characters by your settings and plan.`,
+    );
+  }
+
+  // In context-aware mode the sentence disambiguates the word, so the word translation is cached per sentence
+  const { contextAware, dictionaryLookup } = await translatorSettingsStorage.get();
+  const context = contextAware && contextText && contextText !== highlightedWord ? contextText : undefined;
+  const contextTranslation = context ? translateContext(context, targetLang, sourceLang) : Promise.resolve(undefined);
+
+  // Every lookup is saved as a flashcard unless the caller only wants the translation
+  const save = async (translation: string, originalLang: string) => {
+    if (message.save === false) return undefined;
+    const saved = await saveTranslation(
+      highlightedWord,
+      translation,
+      pageUrl,
+      targetLang,
+      contextText,
+      originalLang,
+      targetLang,
+    );
+    return saved?.id;
+  };
+
+  const dictionary =
+    dictionaryLookup !== false && isSingleWord(highlightedWord)
+      ? await lookupDictionary(highlightedWord, sourceLang, targetLang)
+      : [];
+  if (dictionary.length > 0) {
+    const translation = dictionary[0].senses[0].gloss;
+
+    return {
+      translation,
+      dictionary,
+      alternatives: getAlternatives(dictionary, translation),
+      sourceLang,
+      targetLang,
+      flashcardId: await save(translation, sourceLang),
+      contextTranslation: await contextTranslation,
+    };
+  }
+
+  const cacheKey = getCacheKey(highlightedWord, targetLang, sourceLang, context);
+  const cached = await translationCache.get(cacheKey);
+
+  if (cached) {
+    const originalLang = sourceLang === 'auto' ? normalizeLang(cached.detectedSourceLang) : sourceLang;
+
+    return {
+      translation: cached.translation,
+      sourceLang: originalLang,
+      targetLang,
+      flashcardId: await save(cached.translation, originalLang),
+      contextTranslation: await contextTranslation,
+      fromCache: true,
+    };
+  }
+
+  // Check Supabase for highlighted word first. Those translations were made without context, so skip it in context mode
+  const supabaseCached = context ? null : await checkSupabaseCache(highlightedWord, targetLang, sourceLang);
+  if (supabaseCached) {
+    const originalLang = normalizeLang(supabaseCached.originalLanguage);
+    await translationCache.set(cacheKey, supabaseCached.translation, originalLang);
+
+    return {
+      translation: supabaseCached.translation,
+      sourceLang: originalLang,
+      targetLang,
+      flashcardId: await save(supabaseCached.translation, originalLang),
+      fromCache: true,
+    };
+  }
+
+  // Translate ONLY the highlighted word; the context is passed along as a hint, not translated with it
+  const { translation, detectedSourceLang } = await translateMetered({
+    text: highlightedWord,
+    targetLang,
+    sourceLang,
+    context,
+  });
+
+  await translationCache.set(cacheKey, translation, detectedSourceLang);
+
+  const originalLang = sourceLang === 'auto' ? normalizeLang(detectedSourceLang) : sourceLang;
+  return {
+    translation,
+    sourceLang: originalLang,
+    targetLang,
+    flashcardId: await save(translation, originalLang),
+    contextTranslation: await contextTranslation,
+  };
+};
+
+/**
+ * Translates a page's paragraphs for reading mode in a single provider request. Paragraphs in the persistent cache
+ * are answered from it, the rest are sent in order until the next one would go over the monthly character limit.
+ */
+export const handleTranslatePage = async (
+  message: RequestPayload<'page.translate'>,
+  sender: chrome.runtime.MessageSender,
+): Promise<PageTranslation> => {
+  const pageUrl = message.url || sender.tab?.url || '';
+  await assertSiteEnabled(pageUrl);
+
+  const texts = message.texts.map(text => text.trim());
+  if (texts.length > MAX_PAGE_BATCH_TEXTS || texts.some(text => text.length > MAX_PAGE_TEXT_LENGTH)) {
+    throw new MessageError(
+      MessageErrorCodeEnum.InvalidPayload,
+      `Batches are limited to ${MAX_PAGE_BATCH_TEXTS} paragraphs of ${MAX_PAGE_TEXT_LENGTH} characters.`,
+    );
+  }
+
+  const targetLang = await resolveTargetLang();
+  const sourceLang = await resolveSourceLang(pageUrl, message.pageLang);
+
+  const cacheKeys = texts.map(text => getCacheKey(text, targetLang, sourceLang));
+  const translations = await Promise.all(
+    texts.map(async (text, i) => (text ? ((await translationCache.get(cacheKeys[i]))?.translation ?? null) : '')),
+  );
+
+  // Uncached paragraphs in page order, as many as the remaining characters cover
+  let remaining = await getRemainingCharacters();
+  const missing: number[] = [];
+  let limitReached = false;
+  for (const [i, translation] of translations.entries()) {
+    if (translation !== null) continue;
+    if (texts[i].length > remaining) {
+      limitReached = true;
+      break;
+    }
+    remaining -= texts[i].length;
+    missing.push(i);
+  }
+
+  if (missing.length > 0) {
+    const results = await translateBatchMetered({
+      texts: missing.map(i => texts[i]),
+      targetLang,
+      sourceLang,
+    }).catch(err => {
+      // Translations elsewhere, like on another device, took what was left since it was counted above
+      if (err instanceof MessageError && err.code === MessageErrorCodeEnum.UsageLimitReached) return null;
+      throw err;
+    });
+    if (!results) return { translations, limitReached: true, targetLang };
+
+    await Promise.all(
+      missing.map(async (index, i) => {
+        translations[index] = results[i].translation;
+        await translationCache.set(cacheKeys[index], results[i].translation, results[i].detectedSourceLang);
+      }),
+    );
+  }
+
+  return { translations, limitReached, targetLang };
+};
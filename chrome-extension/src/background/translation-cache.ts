@@ -0,0 +1,157 @@
+// Persistent translation cache. Survives service worker shutdowns by mirroring itself into chrome.storage.local.
+const STORAGE_KEY = 'translationCache';
+const MAX_ENTRIES = 2000;
+// Reading mode caches whole paragraphs, so the count alone could outgrow chrome.storage.local's 10 MB quota
+const MAX_BYTES = 4 * 1024 * 1024;
+// Room for the entry's other fields and the JSON around them
+const ENTRY_OVERHEAD_BYTES = 64;
+const TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+// Hits only move entries up and count, so they are written out together after a burst of lookups
+const PERSIST_DELAY_MS = 1000;
+
+interface CacheEntry {
+  translation: string;
+  detectedSourceLang: string;
+  createdAt: number;
+}
+
+interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+interface PersistedCache {
+  /** Ordered from least to most recently used. */
+  entries: [string, CacheEntry][];
+  stats: CacheStats;
+}
+
+// Map iteration follows insertion order, so re-inserting an entry on access keeps it sorted by recency
+let entries: Map<string, CacheEntry> | null = null;
+let stats: CacheStats = { hits: 0, misses: 0 };
+let loading: Promise<Map<string, CacheEntry>> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+// A write waiting behind the one in progress; it takes the cache as it is when it starts, so it covers later changes
+let pendingWrite: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+// Estimated serialized size of the entries
+let bytes = 0;
+
+const encoder = new TextEncoder();
+
+const getEntryBytes = (key: string, entry: CacheEntry) =>
+  encoder.encode(key).length + encoder.encode(entry.translation).length + ENTRY_OVERHEAD_BYTES;
+
+const load = async () => {
+  if (entries) return entries;
+
+  loading ??= chrome.storage.local.get(STORAGE_KEY).then(result => {
+    const persisted: PersistedCache | undefined = result[STORAGE_KEY];
+    entries = new Map(persisted?.entries ?? []);
+    bytes = 0;
+    entries.forEach((entry, key) => (bytes += getEntryBytes(key, entry)));
+    stats = persisted?.stats ?? { hits: 0, misses: 0 };
+    return entries;
+  });
+
+  return loading;
+};
+
+// Writes are chained so that a slow write can't overwrite a newer one
+const persist = () => {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = null;
+
+  pendingWrite ??= writeQueue
+    .then(() => {
+      pendingWrite = null;
+      return chrome.storage.local.set({
+        [STORAGE_KEY]: { entries: [...(entries ?? [])], stats } satisfies PersistedCache,
+      });
+    })
+    .catch(err => console.error('Translation cache write error:', err));
+  writeQueue = pendingWrite;
+
+  return writeQueue;
+};
+
+// Changes within the delay go out in one write of the whole cache
+const schedulePersist = () => {
+  persistTimer ??= setTimeout(persist, PERSIST_DELAY_MS);
+};
+
+const remove = (cached: Map<string, CacheEntry>, key: string) => {
+  const entry = cached.get(key);
+  if (!entry) return;
+  bytes -= getEntryBytes(key, entry);
+  cached.delete(key);
+};
+
+const isExpired = (entry: CacheEntry) => Date.now() - entry.createdAt > TTL_MS;
+
+// Languages go in lower case, so entries cached before the language registry, like `en-us`, still match `en-US`
+export const getCacheKey = (
+  highlightedWord: string,
+  targetLang: string,
+  sourceLang: string = 'auto',
+  context?: string,
+) => {
+  const key = `${highlightedWord}|${targetLang.toLowerCase()}|${sourceLang.toLowerCase()}`;
+  return context ? `${key}|${context}` : key;
+};
+
+export const translationCache = {
+  get: async (key: string): Promise<CacheEntry | null> => {
+    const cached = await load();
+    const entry = cached.get(key);
+
+    // A miss changes nothing worth a write; the count goes out with the next one
+    if (!entry || isExpired(entry)) {
+      remove(cached, key);
+      stats.misses++;
+      return null;
+    }
+
+    cached.delete(key);
+    cached.set(key, entry);
+    stats.hits++;
+    schedulePersist();
+    return entry;
+  },
+
+  set: async (key: string, translation: string, detectedSourceLang: string = 'auto') => {
+    const cached = await load();
+
+    const entry = { translation, detectedSourceLang, createdAt: Date.now() };
+    remove(cached, key);
+    cached.set(key, entry);
+    bytes += getEntryBytes(key, entry);
+
+    // Evict least recently used entries beyond the caps
+    for (const oldestKey of cached.keys()) {
+      if (cached.size <= MAX_ENTRIES && bytes <= MAX_BYTES) break;
+      remove(cached, oldestKey);
+    }
+
+    // Written out right away, the worker can be stopped at any time; sets in a burst share the write that is queued
+    persist();
+  },
+
+  clear: async () => {
+    const cached = await load();
+    cached.clear();
+    bytes = 0;
+    stats = { hits: 0, misses: 0 };
+    await persist();
+  },
+
+  /**
+   * Writes out changes still waiting for the delay, for when the service worker is about to stop.
+   */
+  flush: () => (persistTimer ? persist() : writeQueue),
+
+  getStats: async () => {
+    const cached = await load();
+    return { ...stats, size: cached.size, maxSize: MAX_ENTRIES };
+  },
+};
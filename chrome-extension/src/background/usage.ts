@@ -0,0 +1,196 @@
+// Characters sent to the translation provider, per user per calendar month
+import { getSubscription } from './subscription.js';
+import { getCurrentUserId, supabase } from './supabase.js';
+import { broadcast, MessageError, MessageErrorCodeEnum } from '@extension/messaging';
+import type { CharacterUsage } from '@extension/messaging';
+
+interface UsageRecord {
+  month: string;
+  used: number;
+}
+
+/**
+ * Characters set aside for a request to the provider, given back with {@link releaseUsage} when it fails.
+ */
+interface UsageReservation {
+  account: string;
+  month: string;
+  characters: number;
+  /** Whether Supabase counted them too, rather than only this device while offline */
+  remote: boolean;
+}
+
+const USAGE_STORAGE_KEY = 'characterUsage';
+// Bucket for translations made while signed out
+const ANONYMOUS_ACCOUNT = 'anonymous';
+
+// Serializes read-modify-write cycles so concurrent translations don't lose counts
+let writeQueue: Promise<unknown> = Promise.resolve();
+// Error of the last sync with Supabase, shown with the usage until a sync goes through
+let syncError: string | undefined;
+
+const getCurrentMonth = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const readRecords = async (): Promise<Record<string, UsageRecord>> => {
+  const { [USAGE_STORAGE_KEY]: records } = await chrome.storage.local.get(USAGE_STORAGE_KEY);
+  return records ?? {};
+};
+
+// Returns this month's local count for the account; counts from earlier months read as zero
+const readUsed = async (account: string, month: string) => {
+  const record = (await readRecords())[account];
+  return record?.month === month ? record.used : 0;
+};
+
+// The update may throw to leave the count as it is, e.g. when a reservation doesn't fit
+const writeUsed = (account: string, month: string, update: (used: number) => number) => {
+  const write = writeQueue.then(async () => {
+    const records = await readRecords();
+    const current = records[account]?.month === month ? records[account].used : 0;
+    const used = update(current);
+    await chrome.storage.local.set({ [USAGE_STORAGE_KEY]: { ...records, [account]: { month, used } } });
+    return used;
+  });
+  writeQueue = write.catch(() => undefined);
+  return write;
+};
+
+const pushRemoteUsage = async (userId: string, month: string, used: number) => {
+  const { error } = await supabase
+    .from('character_usage')
+    .upsert(
+      { user_id: userId, month, characters_used: used, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id,month' },
+    );
+  syncError = toSyncError(error);
+  if (error) {
+    console.error('Usage sync error:', error);
+  }
+};
+
+const toSyncError = (error: { message: string } | null) =>
+  error ? `Usage couldn't be synced: ${error.message}` : undefined;
+
+// Adds the characters to the user's row unless they'd take it over the limit, in one statement so other devices'
+// reservations can't slip in between. The new count, null when over the limit, undefined when Supabase failed.
+const reserveRemoteUsage = async (month: string, characters: number, limit: number) => {
+  const { data, error } = await supabase.rpc('reserve_character_usage', {
+    p_month: month,
+    p_characters: characters,
+    p_limit: limit,
+  });
+  syncError = toSyncError(error);
+  if (error) {
+    console.error('Usage reservation error:', error);
+    return undefined;
+  }
+  return data as number | null;
+};
+
+const releaseRemoteUsage = async (month: string, characters: number) => {
+  const { error } = await supabase.rpc('release_character_usage', { p_month: month, p_characters: characters });
+  syncError = toSyncError(error);
+  if (error) {
+    console.error('Usage release error:', error);
+  }
+};
+
+const fetchRemoteUsage = async (userId: string, month: string) => {
+  const { data, error } = await supabase
+    .from('character_usage')
+    .select('characters_used')
+    .eq('user_id', userId)
+    .eq('month', month)
+    .maybeSingle();
+  syncError = toSyncError(error);
+  if (error) {
+    console.error('Usage fetch error:', error);
+    return 0;
+  }
+  return data?.characters_used ?? 0;
+};
+
+const broadcastUsage = async (used: number, limit: number, month: string, signedIn: boolean) =>
+  broadcast({ type: 'usageUpdated', used, limit, month, syncError: signedIn ? syncError : undefined });
+
+export const getUsage = async (): Promise<CharacterUsage> => {
+  const [userId, { entitlements }] = await Promise.all([getCurrentUserId(), getSubscription()]);
+  const month = getCurrentMonth();
+  const limit = entitlements.monthlyCharacters;
+
+  if (!userId) {
+    return { used: await readUsed(ANONYMOUS_ACCOUNT, month), limit, month };
+  }
+
+  // Other devices mirror into the same row, so the higher of both counts wins
+  const remote = await fetchRemoteUsage(userId, month);
+  const used = await writeUsed(userId, month, local => Math.max(local, remote));
+  if (used > remote) {
+    await pushRemoteUsage(userId, month, used);
+  }
+
+  return { used, limit, month, syncError };
+};
+
+/**
+ * Characters left in the plan's monthly limit, going by this device's count.
+ */
+export const getRemainingCharacters = async () => {
+  const [userId, { entitlements }] = await Promise.all([getCurrentUserId(), getSubscription()]);
+  const used = await readUsed(userId ?? ANONYMOUS_ACCOUNT, getCurrentMonth());
+  return Math.max(entitlements.monthlyCharacters - used, 0);
+};
+
+/**
+ * Sets `characters` aside from the plan's monthly limit before they are sent to the provider, or throws a
+ * {@link MessageErrorCodeEnum.UsageLimitReached} error when they don't fit. Reservations are counted one at a time on
+ * this device, and for signed-in users in Supabase too, so concurrent translations can't overshoot the limit together.
+ */
+export const reserveUsage = async (characters: number): Promise<UsageReservation> => {
+  const [userId, { entitlements }] = await Promise.all([getCurrentUserId(), getSubscription()]);
+  const account = userId ?? ANONYMOUS_ACCOUNT;
+  const month = getCurrentMonth();
+  const limit = entitlements.monthlyCharacters;
+  const limitReached = () =>
+    new MessageError(
+      MessageErrorCodeEnum.UsageLimitReached,
+      `Monthly limit of ${limit.toLocaleString()} characters reached`,
+    );
+
+  let used = await writeUsed(account, month, current => {
+    if (current + characters > limit) throw limitReached();
+    return current + characters;
+  });
+
+  // Offline, this device's count is all there is to go by; getUsage pushes it once Supabase is back
+  let remote = false;
+  if (userId) {
+    const remoteUsed = await reserveRemoteUsage(month, characters, limit);
+    if (remoteUsed === null) {
+      // Other devices used up what this one's count had left
+      await writeUsed(account, month, current => Math.max(current - characters, 0));
+      throw limitReached();
+    }
+    if (remoteUsed !== undefined) {
+      remote = true;
+      used = await writeUsed(account, month, current => Math.max(current, remoteUsed));
+    }
+  }
+
+  await broadcastUsage(used, limit, month, !!userId);
+  return { account, month, characters, remote };
+};
+
+/**
+ * Gives back the characters of a request the provider didn't translate.
+ */
+export const releaseUsage = async ({ account, month, characters, remote }: UsageReservation) => {
+  const used = await writeUsed(account, month, current => Math.max(current - characters, 0));
+  if (remote) await releaseRemoteUsage(month, characters);
+
+  const { entitlements } = await getSubscription();
+  await broadcastUsage(used, entitlements.monthlyCharacters, month, account !== ANONYMOUS_ACCOUNT);
+};
@@ -0,0 +1,5 @@
+export * from './normalize.js';
+export * from './stardict.js';
+export * from './store.js';
+export * from './wiktionary.js';
+export type * from './types.js';
@@ -0,0 +1,20 @@
+/**
+ * Lookup key of a word: case-folded, NFC-normalized and without surrounding punctuation.
+ */
+export const toLookupKey = (word: string) =>
+  word
+    .normalize('NFC')
+    .trim()
+    .replace(/^[^\p{L}\p{M}\p{N}]+|[^\p{L}\p{M}\p{N}]+$/gu, '')
+    .toLocaleLowerCase();
+
+/**
+ * Whether a selection is a single word the dictionaries can answer, as opposed to a phrase.
+ */
+export const isSingleWord = (text: string) =>
+  /^[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*$/u.test(toLookupKey(text));
+
+/**
+ * Base language code in lower case, e.g. `pt` for `pt-BR`.
+ */
+export const toBaseLang = (lang: string) => lang.trim().split(/[-_]/)[0].toLowerCase();
@@ -0,0 +1,160 @@
+// StarDict dictionaries: a .ifo description, a binary .idx word index and the .dict data file, the latter two
+// optionally gzip/dictzip compressed
+import type { DictionaryEntry, ParsedDictionary } from './types.js';
+
+interface StarDictFiles {
+  ifo: Blob;
+  idx: Blob;
+  dict: Blob;
+}
+
+interface StarDictField {
+  type: string;
+  text: string;
+}
+
+const MAX_SENSES = 12;
+
+// Types of fields carrying text; the others are images, sounds and other binary resources
+const TEXT_FIELD_TYPES = 'mlghxtyk';
+const MARKUP_FIELD_TYPES = 'ghx';
+const PRONUNCIATION_FIELD_TYPES = 'ty';
+
+// Abbreviations dictionaries put on a line of their own ahead of the senses
+const PART_OF_SPEECH = /^(n|v|vt|vi|adj|adv|prep|pron|conj|int|interj|art|num|abbr)\.?$/i;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decoder = new TextDecoder();
+
+const readBytes = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const isGzip = bytes[0] === 0x1f && bytes[1] === 0x8b;
+  if (!isGzip) return bytes;
+
+  // dictzip is gzip with extra headers for random access, so the standard decompressor reads it as well
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const parseIfo = (text: string) =>
+  Object.fromEntries(
+    text
+      .split(/\r?\n/)
+      .map(line => line.split('='))
+      .filter(parts => parts.length > 1)
+      .map(([key, ...value]) => [key.trim(), value.join('=').trim()]),
+  );
+
+const markupToText = (markup: string) =>
+  markup
+    .replace(/<br\s*\/?>|<\/(p|div|li|def|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x?[\da-f]+|\w+);/gi, (match, name: string) => {
+      if (name.startsWith('#')) {
+        const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return Number.isNaN(code) ? match : String.fromCodePoint(code);
+      }
+      return ENTITIES[name.toLowerCase()] ?? match;
+    });
+
+const readFields = (data: Uint8Array, sameTypeSequence: string | undefined): StarDictField[] => {
+  const fields: StarDictField[] = [];
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let pos = 0;
+
+  const readField = (type: string, isLast: boolean) => {
+    let end: number;
+    let start = pos;
+    if (type === type.toUpperCase()) {
+      // Binary fields are prefixed with their size
+      if (isLast) {
+        end = data.length;
+      } else {
+        end = pos + 4 + view.getUint32(pos);
+        start = pos + 4;
+      }
+    } else {
+      const nul = data.indexOf(0, pos);
+      end = isLast || nul === -1 ? data.length : nul;
+    }
+
+    if (TEXT_FIELD_TYPES.includes(type)) {
+      const raw = decoder.decode(data.subarray(start, end));
+      fields.push({ type, text: MARKUP_FIELD_TYPES.includes(type) ? markupToText(raw) : raw });
+    }
+    pos = type === type.toUpperCase() ? end : end + 1;
+  };
+
+  // With a sametypesequence the type markers are left out, and so is the terminator of the last field
+  if (sameTypeSequence) {
+    [...sameTypeSequence].forEach((type, i) => readField(type, i === sameTypeSequence.length - 1));
+  } else {
+    while (pos < data.length) {
+      const type = String.fromCharCode(data[pos]);
+      pos += 1;
+      readField(type, false);
+    }
+  }
+
+  return fields;
+};
+
+const toEntry = (headword: string, fields: StarDictField[]): DictionaryEntry | null => {
+  const pronunciation = fields.find(field => PRONUNCIATION_FIELD_TYPES.includes(field.type))?.text.trim();
+  const lines = fields
+    .filter(field => !PRONUNCIATION_FIELD_TYPES.includes(field.type))
+    .flatMap(field => field.text.split(/\r?\n/))
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  const partOfSpeech = lines[0] && PART_OF_SPEECH.test(lines[0]) ? lines.shift() : undefined;
+  const senses = lines
+    .map(line => line.replace(/^(\d+[.)]|[a-z][.)]|[•·-])\s*/, ''))
+    .filter(Boolean)
+    .slice(0, MAX_SENSES)
+    .map(gloss => ({ gloss }));
+
+  if (senses.length === 0) return null;
+
+  return {
+    headword,
+    ...(partOfSpeech ? { partOfSpeech } : {}),
+    ...(pronunciation ? { pronunciation } : {}),
+    senses,
+  };
+};
+
+/**
+ * Reads a StarDict dictionary. StarDict files don't declare their languages, so the importer has to ask for them.
+ */
+export const parseStarDict = async ({ ifo, idx, dict }: StarDictFiles): Promise<ParsedDictionary> => {
+  const info = parseIfo(await ifo.text());
+  const [index, data] = await Promise.all([readBytes(idx), readBytes(dict)]);
+  const offsetBytes = info.idxoffsetbits === '64' ? 8 : 4;
+  const sameTypeSequence: string | undefined = info.sametypesequence || undefined;
+
+  const entries = async function* () {
+    const view = new DataView(index.buffer, index.byteOffset, index.byteLength);
+    let pos = 0;
+
+    while (pos < index.length) {
+      const nul = index.indexOf(0, pos);
+      if (nul === -1) break;
+
+      const headword = decoder.decode(index.subarray(pos, nul));
+      pos = nul + 1;
+      const offset = offsetBytes === 8 ? view.getUint32(pos) * 2 ** 32 + view.getUint32(pos + 4) : view.getUint32(pos);
+      const size = view.getUint32(pos + offsetBytes);
+      pos += offsetBytes + 4;
+
+      const entry = toEntry(headword, readFields(data.subarray(offset, offset + size), sameTypeSequence));
+      if (entry) yield entry;
+    }
+  };
+
+  return {
+    metadata: { format: 'stardict', name: info.bookname },
+    entries: entries(),
+  };
+};
@@ -0,0 +1,159 @@
+// Imported dictionaries live in IndexedDB, which extension pages and the service worker share and which, unlike
+// chrome.storage, copes with hundreds of thousands of entries
+import { toBaseLang, toLookupKey } from './normalize.js';
+import type { DictionaryEntry, DictionaryInfo, LookupOptions, ParsedDictionary } from './types.js';
+
+interface StoredEntry {
+  dictionaryId: string;
+  key: string;
+  entry: DictionaryEntry;
+}
+
+const DB_NAME = 'dictionaries';
+const DB_VERSION = 1;
+const DICTIONARIES = 'dictionaries';
+const ENTRIES = 'entries';
+// Entries are written in batches so an import of a large file neither holds one huge transaction nor
+// opens one per entry
+const BATCH_SIZE = 2000;
+const DEFAULT_LOOKUP_LIMIT = 5;
+
+let db: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDb = () => {
+  db ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(DICTIONARIES, { keyPath: 'id' });
+      const entries = request.result.createObjectStore(ENTRIES, { autoIncrement: true });
+      entries.createIndex('key', 'key');
+      entries.createIndex('dictionaryId', 'dictionaryId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      db = null;
+      reject(request.error);
+    };
+  });
+  return db;
+};
+
+const writeBatch = async (batch: StoredEntry[]) => {
+  const transaction = (await openDb()).transaction(ENTRIES, 'readwrite');
+  const store = transaction.objectStore(ENTRIES);
+  batch.forEach(entry => store.add(entry));
+  await completion(transaction);
+};
+
+const list = async (): Promise<DictionaryInfo[]> => {
+  const transaction = (await openDb()).transaction(DICTIONARIES);
+  return promisify(transaction.objectStore(DICTIONARIES).getAll());
+};
+
+const remove = async (id: string) => {
+  const transaction = (await openDb()).transaction([DICTIONARIES, ENTRIES], 'readwrite');
+  transaction.objectStore(DICTIONARIES).delete(id);
+
+  const entries = transaction.objectStore(ENTRIES).index('dictionaryId');
+  const keys = await promisify(entries.getAllKeys(id));
+  keys.forEach(key => transaction.objectStore(ENTRIES).delete(key));
+
+  await completion(transaction);
+};
+
+/**
+ * Stores a parsed dictionary. The dictionary becomes visible to lookups only once all entries are written,
+ * so an interrupted import leaves nothing half-usable behind besides orphaned entries that get removed on retry.
+ */
+const importDictionary = async (
+  { metadata, entries }: ParsedDictionary,
+  name: string,
+  onProgress?: (entryCount: number) => void,
+): Promise<DictionaryInfo> => {
+  const id = crypto.randomUUID();
+  let batch: StoredEntry[] = [];
+  let entryCount = 0;
+
+  try {
+    for await (const entry of entries) {
+      batch.push({ dictionaryId: id, key: toLookupKey(entry.headword), entry });
+      entryCount += 1;
+
+      if (batch.length >= BATCH_SIZE) {
+        await writeBatch(batch);
+        batch = [];
+        onProgress?.(entryCount);
+      }
+    }
+    await writeBatch(batch);
+  } catch (err) {
+    await remove(id);
+    throw err;
+  }
+
+  const info: DictionaryInfo = {
+    ...metadata,
+    id,
+    name: name || metadata.name || 'Dictionary',
+    sourceLang: metadata.sourceLang && toBaseLang(metadata.sourceLang),
+    targetLang: metadata.targetLang && toBaseLang(metadata.targetLang),
+    entryCount,
+    importedAt: new Date().toISOString(),
+  };
+
+  const transaction = (await openDb()).transaction(DICTIONARIES, 'readwrite');
+  transaction.objectStore(DICTIONARIES).put(info);
+  await completion(transaction);
+  onProgress?.(entryCount);
+
+  return info;
+};
+
+const findByKey = async (key: string, dictionaryIds: Set<string>) => {
+  const transaction = (await openDb()).transaction(ENTRIES);
+  const stored: StoredEntry[] = await promisify(transaction.objectStore(ENTRIES).index('key').getAll(key));
+  return stored.filter(item => dictionaryIds.has(item.dictionaryId)).map(item => item.entry);
+};
+
+/**
+ * Finds entries for a word in the dictionaries matching the language pair. Inflected forms that point to their
+ * lemma bring the lemma's entries along, since those carry the actual senses.
+ */
+const lookup = async (word: string, { sourceLang, targetLang, limit = DEFAULT_LOOKUP_LIMIT }: LookupOptions = {}) => {
+  const key = toLookupKey(word);
+  if (!key) return [];
+
+  const matches = (lang: string | undefined, wanted: string | undefined) =>
+    !lang || !wanted || wanted === 'auto' || lang === toBaseLang(wanted);
+  const dictionaryIds = new Set(
+    (await list())
+      .filter(info => matches(info.sourceLang, sourceLang) && matches(info.targetLang, targetLang))
+      .map(info => info.id),
+  );
+  if (dictionaryIds.size === 0) return [];
+
+  const entries = await findByKey(key, dictionaryIds);
+  const lemmas = new Set(
+    entries.flatMap(entry => (entry.lemma && toLookupKey(entry.lemma) !== key ? [toLookupKey(entry.lemma)] : [])),
+  );
+  for (const lemma of lemmas) {
+    entries.push(...(await findByKey(lemma, dictionaryIds)));
+  }
+
+  return entries.slice(0, limit);
+};
+
+export const dictionaryStore = { list, import: importDictionary, remove, lookup };
@@ -0,0 +1,43 @@
+export interface DictionarySense {
+  gloss: string;
+  examples?: string[];
+}
+
+export interface DictionaryEntry {
+  headword: string;
+  /** Dictionary form when the headword is an inflection, e.g. `go` for `went` */
+  lemma?: string;
+  partOfSpeech?: string;
+  pronunciation?: string;
+  senses: DictionarySense[];
+}
+
+export type DictionaryFormat = 'wiktionary' | 'stardict';
+
+export interface DictionaryInfo {
+  id: string;
+  name: string;
+  format: DictionaryFormat;
+  /** Base language code of the headwords, when the file declares it */
+  sourceLang?: string;
+  /** Base language code of the glosses, when the file declares it */
+  targetLang?: string;
+  entryCount: number;
+  importedAt: string;
+}
+
+export type DictionaryMetadata = Pick<DictionaryInfo, 'name' | 'format' | 'sourceLang' | 'targetLang'>;
+
+export interface LookupOptions {
+  /** Only consult dictionaries whose headwords are in this language; `auto` consults all */
+  sourceLang?: string;
+  /** Only consult dictionaries whose glosses are in this language */
+  targetLang?: string;
+  limit?: number;
+}
+
+/** Output of a format parser, ready to be imported */
+export interface ParsedDictionary {
+  metadata: Omit<DictionaryMetadata, 'name'> & { name?: string };
+  entries: AsyncIterable<DictionaryEntry>;
+}
@@ -0,0 +1,133 @@
+// Wiktionary extracts as published by kaikki.org / wiktextract: one JSON object per line, or a JSON array of them
+import { toBaseLang } from './normalize.js';
+import type { DictionaryEntry, DictionarySense, ParsedDictionary } from './types.js';
+
+interface WiktextractSense {
+  glosses?: string[];
+  examples?: { text?: string; english?: string; translation?: string }[];
+  form_of?: { word?: string }[];
+}
+
+interface WiktextractEntry {
+  word?: string;
+  pos?: string;
+  lang_code?: string;
+  senses?: WiktextractSense[];
+  sounds?: { ipa?: string }[];
+}
+
+const MAX_EXAMPLES = 3;
+
+const readLines = async function* (stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    // Streaming decode keeps characters split across chunks intact
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    yield* lines;
+  }
+
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+};
+
+// Whole-array files can't be streamed line by line, so they are parsed in one go
+const readRecords = async function* (stream: ReadableStream<Uint8Array>): AsyncGenerator<WiktextractEntry> {
+  const lines = readLines(stream);
+  let arrayText: string | null = null;
+
+  for await (const line of lines) {
+    const trimmed = line.trim();
+    if (arrayText !== null) {
+      arrayText += line + '\n';
+      continue;
+    }
+    if (!trimmed) continue;
+    if (trimmed.startsWith('[')) {
+      arrayText = line + '\n';
+      continue;
+    }
+
+    try {
+      yield JSON.parse(trimmed);
+    } catch {
+      // Skip malformed lines instead of failing a multi-gigabyte import near its end
+    }
+  }
+
+  if (arrayText !== null) {
+    yield* JSON.parse(arrayText) as WiktextractEntry[];
+  }
+};
+
+const toSense = ({ glosses, examples }: WiktextractSense): DictionarySense | null => {
+  const gloss = glosses?.filter(Boolean).join('; ');
+  if (!gloss) return null;
+
+  const exampleTexts = (examples ?? [])
+    .filter(example => example.text)
+    .slice(0, MAX_EXAMPLES)
+    .map(example => {
+      const translation = example.english ?? example.translation;
+      return translation ? `${example.text} — ${translation}` : example.text!;
+    });
+
+  return exampleTexts.length > 0 ? { gloss, examples: exampleTexts } : { gloss };
+};
+
+const toEntry = (record: WiktextractEntry): DictionaryEntry | null => {
+  const senses = (record.senses ?? []).map(toSense).filter((sense): sense is DictionarySense => sense !== null);
+  if (!record.word || senses.length === 0) return null;
+
+  const lemma = record.senses?.find(sense => sense.form_of?.[0]?.word)?.form_of?.[0]?.word;
+  const pronunciation = record.sounds?.find(sound => sound.ipa)?.ipa;
+
+  return {
+    headword: record.word,
+    ...(lemma && lemma !== record.word ? { lemma } : {}),
+    ...(record.pos ? { partOfSpeech: record.pos } : {}),
+    ...(pronunciation ? { pronunciation } : {}),
+    senses,
+  };
+};
+
+/**
+ * Reads a Wiktionary extract. The headword language is taken from the first entry; the glosses of
+ * wiktextract dumps are in the language of the Wiktionary edition, English for kaikki.org.
+ */
+export const parseWiktionary = async (
+  stream: ReadableStream<Uint8Array>,
+  glossLang: string = 'en',
+): Promise<ParsedDictionary> => {
+  const records = readRecords(stream);
+  const first = await records.next();
+  const sourceLang = first.done ? undefined : first.value.lang_code;
+
+  const entries = async function* () {
+    if (first.done) return;
+
+    const firstEntry = toEntry(first.value);
+    if (firstEntry) yield firstEntry;
+
+    for await (const record of records) {
+      const entry = toEntry(record);
+      if (entry) yield entry;
+    }
+  };
+
+  return {
+    metadata: {
+      format: 'wiktionary',
+      sourceLang: sourceLang ? toBaseLang(sourceLang) : undefined,
+      targetLang: toBaseLang(glossLang),
+    },
+    entries: entries(),
+  };
+};
@@ -0,0 +1,100 @@
+import { DEFAULT_TIMEOUT_MS } from './const.js';
+import { MessageErrorCodeEnum } from './enums.js';
+import type { MessageType, RequestPayload, ResponseData } from './protocol.js';
+import type { BroadcastMessage, BroadcastType, MessageResponse, RequestMessage, SendOptions } from './types.js';
+
+// Messages without payload fields can be sent without a payload argument
+type SendArgs<T extends MessageType> =
+  Partial<RequestPayload<T>> extends RequestPayload<T>
+    ? [payload?: RequestPayload<T>, options?: SendOptions]
+    : [payload: RequestPayload<T>, options?: SendOptions];
+
+/**
+ * Sends a request to the background and resolves with its response envelope. Never rejects: timeouts and an
+ * unreachable background are reported as failed envelopes too.
+ */
+export const sendMessage = async <T extends MessageType>(
+  type: T,
+  ...[payload, { timeoutMs = DEFAULT_TIMEOUT_MS } = {}]: SendArgs<T>
+): Promise<MessageResponse<ResponseData<T>>> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<MessageResponse<ResponseData<T>>>(resolve => {
+    timer = setTimeout(
+      () =>
+        resolve({
+          success: false,
+          error: `${type} timed out after ${timeoutMs}ms`,
+          code: MessageErrorCodeEnum.Timeout,
+        }),
+      // Leaves the background's own timeout room to answer first with a more precise error
+      timeoutMs + 1000,
+    );
+  });
+
+  const request = chrome.runtime
+    .sendMessage<RequestMessage<T>, MessageResponse<ResponseData<T>> | undefined>({
+      type,
+      payload: (payload ?? {}) as RequestPayload<T>,
+    })
+    .then(
+      (response): MessageResponse<ResponseData<T>> =>
+        response ?? {
+          success: false,
+          error: `No response for ${type}`,
+          code: MessageErrorCodeEnum.Unavailable,
+        },
+    )
+    .catch(
+      (error: unknown): MessageResponse<ResponseData<T>> => ({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        code: MessageErrorCodeEnum.Unavailable,
+      }),
+    );
+
+  return Promise.race([request, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Sends a notification from the background to every open extension page. Nobody listening is not an error.
+ */
+export const broadcast = async <T extends BroadcastType>(message: BroadcastMessage<T>) => {
+  try {
+    await chrome.runtime.sendMessage(message);
+  } catch {
+    // "Receiving end does not exist" when no extension page is open
+  }
+};
+
+/**
+ * Sends a notification from the background to the content scripts of one tab, or of one of its frames. Resolves to
+ * whether a content script received it, which fails on pages extensions can't script, like the Web Store and
+ * `chrome://` pages.
+ */
+export const sendToTab = async <T extends BroadcastType>(
+  tabId: number,
+  message: BroadcastMessage<T>,
+  frameId?: number,
+) => {
+  try {
+    await chrome.tabs.sendMessage(tabId, message, frameId === undefined ? {} : { frameId });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Subscribes to one broadcast type. Returns the unsubscribe function.
+ */
+export const onBroadcast = <T extends BroadcastType>(type: T, listener: (message: BroadcastMessage<T>) => void) => {
+  const handler = (message: unknown) => {
+    if (typeof message === 'object' && message !== null && (message as { type?: unknown }).type === type) {
+      listener(message as BroadcastMessage<T>);
+    }
+  };
+
+  chrome.runtime.onMessage.addListener(handler);
+  return () => chrome.runtime.onMessage.removeListener(handler);
+};
@@ -0,0 +1 @@
+export const DEFAULT_TIMEOUT_MS = 30_000;
@@ -0,0 +1,25 @@
+/**
+ * Error codes carried by failed {@link MessageResponse} envelopes, so callers can branch without parsing messages.
+ */
+export enum MessageErrorCodeEnum {
+  /** The payload didn't match the message's schema */
+  InvalidPayload = 'INVALID_PAYLOAD',
+  /** No handler is registered for the message type */
+  UnknownMessage = 'UNKNOWN_MESSAGE',
+  /** The handler or the round trip took longer than the timeout */
+  Timeout = 'TIMEOUT',
+  /** The background couldn't be reached, e.g. while the extension is reloading */
+  Unavailable = 'UNAVAILABLE',
+  /** The extension is switched off in the popup */
+  ExtensionDisabled = 'EXTENSION_DISABLED',
+  /** The plan's monthly character limit would be exceeded */
+  UsageLimitReached = 'USAGE_LIMIT_REACHED',
+  /** The requested record doesn't exist or belongs to another user */
+  NotFound = 'NOT_FOUND',
+  /** The operation needs a signed-in user */
+  Unauthenticated = 'UNAUTHENTICATED',
+  /** The sender isn't allowed to send the message, e.g. a page asking about another tab */
+  Forbidden = 'FORBIDDEN',
+  /** The handler threw an unexpected error */
+  HandlerError = 'HANDLER_ERROR',
+}
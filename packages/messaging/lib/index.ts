@@ -0,0 +1,8 @@
+export * from './client.js';
+export * from './const.js';
+export * from './enums.js';
+export * from './message-error.js';
+export * from './protocol.js';
+export * from './router.js';
+export * as schema from './schema.js';
+export type * from './types.js';
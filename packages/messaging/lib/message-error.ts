@@ -0,0 +1,15 @@
+import type { MessageErrorCodeEnum } from './enums.js';
+
+/**
+ * Thrown by handlers to fail with a specific {@link MessageErrorCodeEnum}.
+ * Any other error thrown by a handler is reported as {@link MessageErrorCodeEnum.HandlerError}.
+ */
+export class MessageError extends Error {
+  constructor(
+    readonly code: MessageErrorCodeEnum,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'MessageError';
+  }
+}
@@ -0,0 +1,257 @@
+import { array, boolean, number, object, optional, string } from './schema.js';
+import type { Infer } from './schema.js';
+import type { DictionaryEntry } from '@extension/dictionary';
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+export interface AuthSession {
+  access_token: string;
+  refresh_token: string;
+  expires_at?: number;
+  user: AuthUser;
+}
+
+export interface AuthResult {
+  user: AuthUser | null;
+  session: AuthSession | null;
+}
+
+export interface TranslateResult {
+  /** Translation of the highlighted word */
+  translation: string;
+  /** Translation of the surrounding sentence, only set in context-aware mode */
+  contextTranslation?: string;
+  /** Offline dictionary entries for single words; `translation` is then the first sense */
+  dictionary?: DictionaryEntry[];
+  /** Other ways to translate the word, from other senses in the user's imported dictionaries; providers give none */
+  alternatives?: string[];
+  /** Base code of the language the word was translated from, `auto` when unknown */
+  sourceLang?: string;
+  /** Target language the translation is in */
+  targetLang?: string;
+  /** Flashcard the lookup was saved to; missing when signed out, queued offline or not saved */
+  flashcardId?: string;
+  fromCache?: boolean;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  maxSize: number;
+}
+
+export interface Flashcard {
+  id?: string;
+  original: string;
+  translation: string;
+  date: string;
+  url?: string;
+  context?: string;
+  original_language?: string;
+  translation_language?: string;
+  /** How often the word was looked up */
+  encounter_count?: number;
+  /** Distinct sentences the word was met in, oldest first */
+  contexts?: string[];
+  /** Distinct pages the word was met on, oldest first */
+  urls?: string[];
+  first_seen?: string;
+  last_seen?: string;
+}
+
+export interface FlashcardPage {
+  items: Flashcard[];
+  /** Number of flashcards matching the filters, across all pages */
+  total: number;
+}
+
+/** A saved word, as needed to recognize it on pages */
+export interface VocabularyEntry {
+  original: string;
+  translation: string;
+  originalLanguage?: string;
+}
+
+export interface OutboxStatus {
+  /** Flashcard writes waiting for Supabase to become reachable */
+  pending: number;
+}
+
+export type SubscriptionTier = 'anonymous' | 'free' | 'pro' | 'premium';
+
+/** What the current plan allows */
+export interface Entitlements {
+  /** Characters that may be sent to the translation provider per calendar month */
+  monthlyCharacters: number;
+  /** Longest selection that gets translated, in characters */
+  maxSelectionLength: number;
+  /** Longest surrounding context sent along with a selection, in characters */
+  maxContextLength: number;
+}
+
+export interface SubscriptionStatus {
+  tier: SubscriptionTier;
+  entitlements: Entitlements;
+  subscribed: boolean;
+  productId?: string;
+  subscriptionEnd?: string;
+}
+
+/** Selection settings with the plan's entitlements applied */
+export interface SelectionLimits {
+  maxSelectionLength: number;
+  maxContextLength: number;
+  savePassages: boolean;
+}
+
+export interface CharacterUsage {
+  used: number;
+  limit: number;
+  /** Calendar month the count belongs to, as YYYY-MM */
+  month: string;
+  /** Why the count couldn't be synced with the account's other devices, when the last sync failed */
+  syncError?: string;
+}
+
+/** Translations of a page's paragraphs, see the `page.translate` message */
+export interface PageTranslation {
+  /** In the order of the texts; null for those left out because the monthly character limit was reached */
+  translations: (string | null)[];
+  /** Set when some texts were left out for the monthly character limit */
+  limitReached: boolean;
+  /** Language the texts were translated into */
+  targetLang: string;
+}
+
+/**
+ * Payload schemas of every message the background answers. The background validates incoming payloads against these.
+ */
+export const requestSchemas = {
+  translate: object({
+    text: string(),
+    highlightedWord: optional(string()),
+    url: optional(string()),
+    /** `lang` attribute of the element around the selection, used when no source language is set */
+    pageLang: optional(string()),
+    /** Defaults to true; false only translates, e.g. for a sentence shown on request */
+    save: optional(boolean()),
+    /** Overrides the target language setting, e.g. when picked from the context menu */
+    targetLang: optional(string()),
+    /** Overrides the source language settings and `pageLang`, e.g. when picked in the popup; `auto` detects it */
+    sourceLang: optional(string()),
+  }),
+  /**
+   * Translates a batch of a page's paragraphs in one provider request, for reading mode. Cached paragraphs cost
+   * nothing, the others are translated as far as the monthly character limit allows. Nothing is saved.
+   */
+  'page.translate': object({
+    texts: array(string()),
+    url: optional(string()),
+    pageLang: optional(string()),
+  }),
+  'auth.signin': object({
+    email: string(),
+    password: string(),
+    remember: optional(boolean()),
+  }),
+  'auth.signout': object({}),
+  'auth.getSession': object({}),
+  'auth.refreshSession': object({}),
+  'cache.getStats': object({}),
+  'cache.clear': object({}),
+  'flashcards.list': object({
+    limit: optional(number()),
+    offset: optional(number()),
+    /** Case-insensitive match on the original or the translation */
+    search: optional(string()),
+    originalLanguage: optional(string()),
+    translationLanguage: optional(string()),
+    /** Matches flashcards saved on pages whose URL contains this, e.g. a domain */
+    site: optional(string()),
+  }),
+  'flashcards.get': object({ id: string() }),
+  /** Saves a word explicitly, e.g. from the tooltip after it was unsaved */
+  'flashcards.save': object({
+    original: string(),
+    translation: string(),
+    translationLanguage: string(),
+    originalLanguage: optional(string()),
+    url: optional(string()),
+    context: optional(string()),
+  }),
+  'flashcards.update': object({
+    id: string(),
+    original: optional(string()),
+    translation: optional(string()),
+    context: optional(string()),
+  }),
+  'flashcards.delete': object({ id: string() }),
+  'flashcards.bulkDelete': object({ ids: array(string()) }),
+  'flashcards.clearAll': object({}),
+  'vocabulary.get': object({}),
+  'outbox.getStatus': object({}),
+  'subscription.check': object({}),
+  'subscription.getUsage': object({}),
+  'selection.getLimits': object({}),
+  /** Starts reading mode in the tab, or reverts it when it is on already. Scripts in a tab only toggle their own. */
+  'readingMode.toggle': object({ tabId: number() }),
+};
+
+/**
+ * Data returned on success for every message in {@link requestSchemas}.
+ */
+export interface ResponseMap {
+  translate: TranslateResult;
+  'page.translate': PageTranslation;
+  'auth.signin': AuthResult;
+  'auth.signout': void;
+  'auth.getSession': AuthResult;
+  'auth.refreshSession': AuthResult;
+  'cache.getStats': CacheStats;
+  'cache.clear': void;
+  'flashcards.list': FlashcardPage;
+  'flashcards.get': Flashcard;
+  /** null when Supabase couldn't be reached and the flashcard was queued in the outbox */
+  'flashcards.save': Flashcard | null;
+  /** null when Supabase couldn't be reached and the change was queued in the outbox */
+  'flashcards.update': Flashcard | null;
+  'flashcards.delete': void;
+  'flashcards.bulkDelete': { deleted: number };
+  'flashcards.clearAll': void;
+  /** Empty when signed out */
+  'vocabulary.get': VocabularyEntry[];
+  'outbox.getStatus': OutboxStatus;
+  'subscription.check': SubscriptionStatus;
+  'subscription.getUsage': CharacterUsage;
+  'selection.getLimits': SelectionLimits;
+  'readingMode.toggle': void;
+}
+
+/**
+ * Notifications the background pushes to every open extension page. They expect no response.
+ */
+export interface BroadcastMap {
+  flashcardsUpdated: {
+    action: 'saved' | 'updated' | 'deleted' | 'cleared';
+    ids?: string[];
+  };
+  outboxUpdated: OutboxStatus;
+  /** Sent after every metered translation */
+  usageUpdated: CharacterUsage;
+  /** Sent to a tab's content script to translate its current selection, or the given text */
+  translateSelection: {
+    source: 'shortcut' | 'contextMenu';
+    text?: string;
+    targetLang?: string;
+  };
+  /** Sent to a tab's content script to move keyboard focus into the open tooltip */
+  focusTooltip: object;
+}
+
+export type MessageType = keyof typeof requestSchemas & keyof ResponseMap;
+export type RequestPayload<T extends MessageType> = Infer<(typeof requestSchemas)[T]>;
+export type ResponseData<T extends MessageType> = ResponseMap[T];
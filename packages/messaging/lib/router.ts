@@ -0,0 +1,114 @@
+import { DEFAULT_TIMEOUT_MS } from './const.js';
+import { MessageErrorCodeEnum } from './enums.js';
+import { MessageError } from './message-error.js';
+import { requestSchemas } from './protocol.js';
+import { SchemaError } from './schema.js';
+import type { MessageType, RequestPayload, ResponseData } from './protocol.js';
+import type { MessageResponse, SendOptions } from './types.js';
+
+const isProtocolMessage = (message: unknown): message is { type: MessageType; payload?: unknown } =>
+  typeof message === 'object' &&
+  message !== null &&
+  typeof (message as { type?: unknown }).type === 'string' &&
+  Object.hasOwn(requestSchemas, (message as { type: string }).type);
+
+const withTimeout = <R>(promise: Promise<R>, timeoutMs: number, type: string) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new MessageError(MessageErrorCodeEnum.Timeout, `${type} timed out after ${timeoutMs}ms`)),
+      timeoutMs,
+    );
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+export type Handler<T extends MessageType> = (
+  payload: RequestPayload<T>,
+  sender: chrome.runtime.MessageSender,
+) => Promise<ResponseData<T>> | ResponseData<T>;
+
+export type HandlerDefinition<T extends MessageType = MessageType> = {
+  type: T;
+  handler: Handler<T>;
+  timeoutMs: number;
+};
+
+export const toErrorResponse = (error: unknown): MessageResponse<never> => {
+  if (error instanceof MessageError) {
+    return { success: false, error: error.message, code: error.code };
+  }
+  if (error instanceof SchemaError) {
+    return { success: false, error: error.message, code: MessageErrorCodeEnum.InvalidPayload };
+  }
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : String(error),
+    code: MessageErrorCodeEnum.HandlerError,
+  };
+};
+
+/**
+ * Declares the background's handler for one message type. The payload is validated before the handler runs.
+ */
+export const defineHandler = <T extends MessageType>(
+  type: T,
+  handler: Handler<T>,
+  { timeoutMs = DEFAULT_TIMEOUT_MS }: SendOptions = {},
+): HandlerDefinition<T> => ({ type, handler, timeoutMs });
+
+/**
+ * Dispatches protocol messages to their handlers and wraps every result in a {@link MessageResponse} envelope.
+ * Messages that aren't part of the protocol are left for other `onMessage` listeners.
+ */
+export const createRouter = (definitions: HandlerDefinition[]) => {
+  const handlers = new Map<MessageType, HandlerDefinition>(
+    definitions.map(definition => [definition.type, definition]),
+  );
+
+  const handle = async (
+    message: { type: MessageType; payload?: unknown },
+    sender: chrome.runtime.MessageSender,
+  ): Promise<MessageResponse<unknown>> => {
+    const definition = handlers.get(message.type);
+
+    if (!definition) {
+      return {
+        success: false,
+        error: `No handler registered for ${message.type}`,
+        code: MessageErrorCodeEnum.UnknownMessage,
+      };
+    }
+
+    try {
+      const payload = requestSchemas[message.type].parse(message.payload);
+      const data = await withTimeout(
+        Promise.resolve(definition.handler(payload as never, sender)),
+        definition.timeoutMs,
+        message.type,
+      );
+      return { success: true, data };
+    } catch (error) {
+      console.error(`[messaging] ${message.type} failed:`, error);
+      return toErrorResponse(error);
+    }
+  };
+
+  const listener = (
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: MessageResponse<unknown>) => void,
+  ) => {
+    if (!isProtocolMessage(message)) {
+      return false;
+    }
+
+    handle(message, sender).then(sendResponse);
+    // Keeps the channel open for the async response
+    return true;
+  };
+
+  return { handle, listener };
+};
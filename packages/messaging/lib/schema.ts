@@ -0,0 +1,84 @@
+// Minimal runtime schemas for message payloads.
+// Each schema validates an unknown value and returns it typed, or throws a SchemaError naming the bad field.
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S];
+
+type InferShape<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+const primitive =
+  <T>(type: 'string' | 'number' | 'boolean') =>
+  (): Schema<T> => ({
+    parse: (value, path = '') => {
+      if (typeof value !== type || (type === 'number' && Number.isNaN(value))) {
+        throw new SchemaError(path, type);
+      }
+      return value as T;
+    },
+  });
+
+export class SchemaError extends Error {
+  constructor(path: string, expected: string) {
+    super(`${path || 'payload'}: expected ${expected}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export type Schema<T> = {
+  parse: (value: unknown, path?: string) => T;
+  /** Marks the field as optional when used inside {@link object} */
+  optional?: true;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export const string = primitive<string>('string');
+export const number = primitive<number>('number');
+export const boolean = primitive<boolean>('boolean');
+
+export const literal = <const T extends string | number | boolean>(...values: T[]): Schema<T> => ({
+  parse: (value, path = '') => {
+    if (!values.includes(value as T)) {
+      throw new SchemaError(path, values.map(v => JSON.stringify(v)).join(' | '));
+    }
+    return value as T;
+  },
+});
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> & { optional: true } => ({
+  optional: true,
+  parse: (value, path) => (value === undefined || value === null ? undefined : schema.parse(value, path)),
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  parse: (value, path = '') => {
+    if (!Array.isArray(value)) {
+      throw new SchemaError(path, 'array');
+    }
+    return value.map((v, i) => item.parse(v, `${path}[${i}]`));
+  },
+});
+
+export const object = <S extends Shape>(shape: S): Schema<InferShape<S>> => ({
+  parse: (value, path = '') => {
+    // Messages without a payload arrive as undefined
+    const input = value ?? {};
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      throw new SchemaError(path, 'object');
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const parsed = schema.parse((input as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    }
+    return result as InferShape<S>;
+  },
+});
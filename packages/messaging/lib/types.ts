@@ -0,0 +1,25 @@
+import type { MessageErrorCodeEnum } from './enums.js';
+import type { BroadcastMap, RequestPayload, MessageType } from './protocol.js';
+
+export type MessageResponse<D> =
+  | { success: true; data: D; error?: undefined }
+  | { success: false; data?: undefined; error: string; code: MessageErrorCodeEnum };
+
+/**
+ * Shape of a request on the wire, as passed to `chrome.runtime.sendMessage`.
+ */
+export type RequestMessage<T extends MessageType = MessageType> = {
+  type: T;
+  payload: RequestPayload<T>;
+};
+
+export type BroadcastType = keyof BroadcastMap;
+
+export type BroadcastMessage<T extends BroadcastType = BroadcastType> = {
+  type: T;
+} & BroadcastMap[T];
+
+export type SendOptions = {
+  /** @default {@link DEFAULT_TIMEOUT_MS} */
+  timeoutMs?: number;
+};
@@ -1,4 +1,5 @@
-import type { ExcludeValuesFromBaseArrayType } from './types.js';
+import type { ExcludeValuesFromBaseArrayType, SiteAccessType } from './types.js';
+import type { SiteAccessStateType } from '@extension/storage';
 
 export const excludeValuesFromBaseArray = <B extends string[], E extends (string | number)[]>(
   baseArray: B,
@@ -6,3 +7,81 @@ export const excludeValuesFromBaseArray = <B extends string[], E extends (string
 ) => baseArray.filter(value => !excludeArray.includes(value)) as ExcludeValuesFromBaseArrayType<B, E>;
 
 export const sleep = async (time: number) => new Promise(r => setTimeout(r, time));
+
+/**
+ * Host of a page URL without a leading `www.`, or an empty string for URLs without a host.
+ */
+export const getSiteHost = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Looks up a per-site setting keyed by host, trying the page's host first and then its parent domains,
+ * so an entry for `example.com` also covers `news.example.com`.
+ */
+export const findSiteSetting = <T>(url: string, settings: Record<string, T>): T | undefined => {
+  for (let host = getSiteHost(url); host; host = host.slice(host.indexOf('.') + 1 || host.length)) {
+    if (Object.hasOwn(settings, host)) {
+      return settings[host];
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Host part of a site pattern as typed, lowercased and without `www.`, so `https://www.Example.com/news` becomes
+ * `example.com`.
+ */
+export const normalizeSitePattern = (pattern: string) =>
+  pattern
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z\d+.-]*:\/\//, '')
+    .replace(/[/?#:].*$/, '')
+    .replace(/^www\./, '');
+
+/**
+ * Whether a host matches a site pattern, where `*` stands for any part of a host name. Like per-site settings,
+ * a pattern also covers the subdomains of what it matches.
+ */
+export const matchesSitePattern = (host: string, pattern: string) => {
+  const normalized = normalizeSitePattern(pattern);
+  if (!host || !normalized) return false;
+
+  const source = normalized
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^(?:.+\\.)?${source}$`).test(host);
+};
+
+/**
+ * Whether the extension runs on a page, given the global switch and the site lists. Pages without a host, like the
+ * popup's own translations, are only subject to the switch and the pause.
+ */
+export const getSiteAccess = (
+  url: string,
+  access: SiteAccessStateType,
+  enabled: boolean,
+  now = Date.now(),
+): SiteAccessType => {
+  const host = getSiteHost(url);
+  const blockedBy = host ? access.blockList.find(pattern => matchesSitePattern(host, pattern)) : undefined;
+  const allowed =
+    !host || access.mode === 'block-list' || access.allowList.some(pattern => matchesSitePattern(host, pattern));
+  const reason = !enabled
+    ? 'disabled'
+    : access.pausedUntil > now
+      ? 'paused'
+      : blockedBy
+        ? 'blocked'
+        : !allowed
+          ? 'not-allowed'
+          : undefined;
+
+  return { enabled: !reason, reason, siteEnabled: !blockedBy && allowed, host, blockedBy };
+};
@@ -1,4 +1,5 @@
 export * from './helpers.js';
+export * from './languages.js';
 export * from './colorful-logger.js';
 export * from './init-app-with-shadow.js';
 export type * from './types.js';
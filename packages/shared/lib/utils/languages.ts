@@ -0,0 +1,157 @@
+import type { LanguageRoleType, LanguageType } from './types.js';
+import type { TranslationProviderIdType } from '@extension/storage';
+
+type ProviderCodes = LanguageType['providers'];
+
+// Most languages go by their base code both ways, in upper case for DeepL and lower case for LibreTranslate
+const both = (deepl: string, libretranslate = deepl.toLowerCase()): ProviderCodes => ({
+  deepl: { source: deepl, target: deepl },
+  libretranslate: { source: libretranslate, target: libretranslate },
+});
+
+const language = (
+  code: string,
+  name: string,
+  nativeName: string,
+  providers: ProviderCodes,
+  dir: LanguageType['dir'] = 'ltr',
+): LanguageType => ({ code, name, nativeName, dir, providers });
+
+/**
+ * Every language the extension offers, in the order pickers list them. Regional variants follow their base language,
+ * which DeepL only takes as a source while it wants the variant as a target.
+ */
+const LANGUAGES: LanguageType[] = [
+  language('ar', 'Arabic', 'العربية', both('AR'), 'rtl'),
+  language('bg', 'Bulgarian', 'Български', both('BG')),
+  language('zh', 'Chinese', '中文', { deepl: { source: 'ZH' }, libretranslate: { source: 'zh', target: 'zh' } }),
+  language('zh-Hans', 'Chinese (simplified)', '简体中文', { deepl: { target: 'ZH-HANS' } }),
+  language('zh-Hant', 'Chinese (traditional)', '繁體中文', {
+    deepl: { target: 'ZH-HANT' },
+    libretranslate: { source: 'zt', target: 'zt' },
+  }),
+  language('cs', 'Czech', 'Čeština', both('CS')),
+  language('da', 'Danish', 'Dansk', both('DA')),
+  language('nl', 'Dutch', 'Nederlands', both('NL')),
+  language('en', 'English', 'English', { deepl: { source: 'EN' }, libretranslate: { source: 'en', target: 'en' } }),
+  language('en-US', 'English (American)', 'English (US)', { deepl: { target: 'EN-US' } }),
+  language('en-GB', 'English (British)', 'English (UK)', { deepl: { target: 'EN-GB' } }),
+  language('et', 'Estonian', 'Eesti', both('ET')),
+  language('fi', 'Finnish', 'Suomi', both('FI')),
+  language('fr', 'French', 'Français', both('FR')),
+  language('de', 'German', 'Deutsch', both('DE')),
+  language('el', 'Greek', 'Ελληνικά', both('EL')),
+  language('he', 'Hebrew', 'עברית', both('HE'), 'rtl'),
+  language('hu', 'Hungarian', 'Magyar', both('HU')),
+  language('id', 'Indonesian', 'Bahasa Indonesia', both('ID')),
+  language('it', 'Italian', 'Italiano', both('IT')),
+  language('ja', 'Japanese', '日本語', both('JA')),
+  language('ko', 'Korean', '한국어', both('KO')),
+  language('lv', 'Latvian', 'Latviešu', both('LV')),
+  language('lt', 'Lithuanian', 'Lietuvių', both('LT')),
+  language('nb', 'Norwegian (bokmål)', 'Norsk bokmål', both('NB')),
+  language('pl', 'Polish', 'Polski', both('PL')),
+  language('pt', 'Portuguese', 'Português', {
+    deepl: { source: 'PT' },
+    libretranslate: { source: 'pt', target: 'pt' },
+  }),
+  language('pt-PT', 'Portuguese (European)', 'Português (Portugal)', { deepl: { target: 'PT-PT' } }),
+  language('pt-BR', 'Portuguese (Brazilian)', 'Português (Brasil)', {
+    deepl: { target: 'PT-BR' },
+    libretranslate: { target: 'pb' },
+  }),
+  language('ro', 'Romanian', 'Română', both('RO')),
+  language('ru', 'Russian', 'Русский', both('RU')),
+  language('sk', 'Slovak', 'Slovenčina', both('SK')),
+  language('sl', 'Slovenian', 'Slovenščina', both('SL')),
+  language('es', 'Spanish', 'Español', both('ES')),
+  language('es-419', 'Spanish (Latin American)', 'Español (Latinoamérica)', { deepl: { target: 'ES-419' } }),
+  language('sv', 'Swedish', 'Svenska', both('SV')),
+  language('th', 'Thai', 'ไทย', both('TH')),
+  language('tr', 'Turkish', 'Türkçe', both('TR')),
+  language('uk', 'Ukrainian', 'Українська', both('UK')),
+  language('vi', 'Vietnamese', 'Tiếng Việt', both('VI')),
+];
+
+const DEFAULT_TARGET_LANGUAGE = 'en-US';
+
+// Codes earlier versions stored that aren't in the registry, lower-cased, e.g. DeepL's old `NO` for Norwegian
+const LEGACY_CODES: Record<string, string> = {
+  'es-xl': 'es-419',
+  no: 'nb',
+  'zh-tw': 'zh-Hant',
+  'zh-cn': 'zh-Hans',
+};
+
+const getBaseCode = (code: string) => code.split(/[-_]/)[0].toLowerCase();
+
+// Both DeepL plans take the same languages
+const toProviderFamily = (provider: Exclude<TranslationProviderIdType, 'mock'>) =>
+  provider === 'libretranslate' ? provider : 'deepl';
+
+/**
+ * The registry entry for a code in any case, a legacy code, or a regional code only the base language is listed for,
+ * so `EN-US`, `es-xl` and `fr-CA` find English (American), Spanish (Latin American) and French.
+ */
+const findLanguage = (code: string | undefined): LanguageType | undefined => {
+  const key = code?.trim().replace(/_/g, '-').toLowerCase();
+  if (!key) return undefined;
+  const canonical = (LEGACY_CODES[key] ?? key).toLowerCase();
+  return (
+    LANGUAGES.find(language => language.code.toLowerCase() === canonical) ??
+    LANGUAGES.find(language => language.code === getBaseCode(canonical))
+  );
+};
+
+/**
+ * The registry code for a stored or typed code, or the code itself when the registry doesn't know the language.
+ */
+const toLanguageCode = (code: string) => findLanguage(code)?.code ?? code;
+
+/**
+ * English name of a language, falling back to the code.
+ */
+const getLanguageName = (code: string) => findLanguage(code)?.name ?? code;
+
+/**
+ * The base language a code is a variant of, e.g. `en` for `en-GB`, as used for source languages.
+ */
+const getBaseLanguage = (code: string) => findLanguage(getBaseCode(toLanguageCode(code)));
+
+/**
+ * Languages a provider takes in a role, for pickers. The mock provider takes anything.
+ */
+const getLanguages = (provider: TranslationProviderIdType, role: LanguageRoleType) => {
+  if (provider === 'mock') return LANGUAGES;
+  const family = toProviderFamily(provider);
+  return LANGUAGES.filter(language => language.providers[family]?.[role]);
+};
+
+/**
+ * The code a provider wants for a language in a role. A language the provider doesn't take in that role stands in
+ * for a related one it does, e.g. `en` becomes `EN-US` as a DeepL target and `en-GB` becomes `en` for LibreTranslate.
+ * Undefined when neither the language nor a relative is supported.
+ */
+const toProviderCode = (code: string, provider: TranslationProviderIdType, role: LanguageRoleType) => {
+  const found = findLanguage(code);
+  if (!found) return undefined;
+  if (provider === 'mock') return found.code;
+
+  const family = toProviderFamily(provider);
+  const base = getBaseCode(found.code);
+  const relative = LANGUAGES.find(
+    language => getBaseCode(language.code) === base && language.providers[family]?.[role],
+  );
+  return found.providers[family]?.[role] ?? relative?.providers[family]?.[role];
+};
+
+export {
+  DEFAULT_TARGET_LANGUAGE,
+  LANGUAGES,
+  findLanguage,
+  getBaseLanguage,
+  getLanguageName,
+  getLanguages,
+  toLanguageCode,
+  toProviderCode,
+};
@@ -8,3 +8,28 @@ export type ExcludeValuesFromBaseArrayType<B extends string[], E extends (string
   TupleToUnion<E>
 >[];
 export type ManifestType = chrome.runtime.ManifestV3;
+export type SiteAccessReasonType = 'disabled' | 'paused' | 'blocked' | 'not-allowed';
+export interface SiteAccessType {
+  /** Whether the extension runs on the site right now */
+  enabled: boolean;
+  /** Why it doesn't: switched off, paused, or kept off the site by the block list or the allow list */
+  reason?: SiteAccessReasonType;
+  /** Whether the lists let the extension run on the site, regardless of the switch and the pause */
+  siteEnabled: boolean;
+  /** Host the lists were matched against, without `www.` */
+  host: string;
+  /** Block list pattern the host matched */
+  blockedBy?: string;
+}
+export type LanguageRoleType = 'source' | 'target';
+export interface LanguageType {
+  /** BCP 47 tag the extension stores and passes around, e.g. `en-US` or `es-419` */
+  code: string;
+  /** English name, as shown in pickers */
+  name: string;
+  /** Name in the language itself */
+  nativeName: string;
+  dir: 'ltr' | 'rtl';
+  /** Code each provider takes for the language as source or target; a missing one means it isn't supported */
+  providers: Partial<Record<'deepl' | 'libretranslate', Partial<Record<LanguageRoleType, string>>>>;
+}
@@ -52,3 +52,179 @@ export interface ThemeStateType {
 export type ThemeStorageType = BaseStorageType<ThemeStateType> & {
   toggle: () => Promise<void>;
 };
+
+export type TranslationProviderIdType = 'deepl-free' | 'deepl-pro' | 'libretranslate' | 'mock';
+
+export interface TranslatorSettingsStateType {
+  provider: TranslationProviderIdType;
+  /**
+   * Per-provider endpoint override, e.g. a self-hosted LibreTranslate instance.
+   * An empty or missing entry means the provider's public endpoint.
+   */
+  endpoints: Partial<Record<TranslationProviderIdType, string>>;
+  /**
+   * Per-provider API key. DeepL falls back to `CEB_API_KEY` when none is stored.
+   */
+  apiKeys: Partial<Record<TranslationProviderIdType, string>>;
+  /**
+   * Sends the sentence around the selection along with the word and translates the sentence as well.
+   */
+  contextAware: boolean;
+  /**
+   * Answers single words from the offline dictionaries when one covers the language pair, without calling the
+   * provider. Missing in settings saved by older versions, which counts as enabled.
+   */
+  dictionaryLookup?: boolean;
+}
+
+export type TranslatorSettingsStorageType = BaseStorageType<TranslatorSettingsStateType> & {
+  setProvider: (provider: TranslationProviderIdType) => Promise<void>;
+  setEndpoint: (provider: TranslationProviderIdType, endpoint: string) => Promise<void>;
+  setApiKey: (provider: TranslationProviderIdType, apiKey: string) => Promise<void>;
+  setContextAware: (contextAware: boolean) => Promise<void>;
+  setDictionaryLookup: (dictionaryLookup: boolean) => Promise<void>;
+};
+
+export interface SourceLanguageStateType {
+  /**
+   * Language of the text being translated, or `auto` to use the page's `lang` attribute and provider detection.
+   */
+  sourceLang: string;
+  /**
+   * Source language per site, keyed by host without `www.`. Applies to subdomains as well.
+   */
+  siteOverrides: Record<string, string>;
+}
+
+export type SourceLanguageStorageType = BaseStorageType<SourceLanguageStateType> & {
+  setSourceLang: (sourceLang: string) => Promise<void>;
+  /**
+   * Pass `null` to remove the site's override.
+   */
+  setSiteOverride: (host: string, sourceLang: string | null) => Promise<void>;
+};
+
+export type TriggerModeType = 'selection' | 'modifier' | 'double-click' | 'hover' | 'shortcut' | 'manual';
+
+export type TriggerModifierKeyType = 'alt' | 'ctrl' | 'shift' | 'meta';
+
+export interface TriggerSettingsStateType {
+  /**
+   * What starts a translation: any selection, a selection made while holding {@link modifierKey}, a double-click,
+   * resting the pointer on a word for {@link hoverDelay}, only the keyboard shortcut, or only explicit requests
+   * from the context menu.
+   */
+  mode: TriggerModeType;
+  modifierKey: TriggerModifierKeyType;
+  /** Milliseconds */
+  hoverDelay: number;
+  /**
+   * Mode per site, keyed by host without `www.`. Applies to subdomains as well.
+   */
+  siteModes: Record<string, TriggerModeType>;
+}
+
+export type TriggerSettingsStorageType = BaseStorageType<TriggerSettingsStateType> & {
+  setMode: (mode: TriggerModeType) => Promise<void>;
+  setModifierKey: (modifierKey: TriggerModifierKeyType) => Promise<void>;
+  setHoverDelay: (hoverDelay: number) => Promise<void>;
+  /**
+   * Pass `null` to remove the site's mode.
+   */
+  setSiteMode: (host: string, mode: TriggerModeType | null) => Promise<void>;
+};
+
+export interface SelectionSettingsStateType {
+  /**
+   * Longest selection to translate, in characters. The plan's entitlement caps it.
+   */
+  maxSelectionLength: number;
+  /**
+   * Longest surrounding context to send along, in characters. The plan's entitlement caps it.
+   */
+  maxContextLength: number;
+  /**
+   * Whether passages, selections longer than a phrase, are saved as flashcards like words and phrases are.
+   */
+  savePassages: boolean;
+}
+
+export type SelectionSettingsStorageType = BaseStorageType<SelectionSettingsStateType> & {
+  setMaxSelectionLength: (maxSelectionLength: number) => Promise<void>;
+  setMaxContextLength: (maxContextLength: number) => Promise<void>;
+  setSavePassages: (savePassages: boolean) => Promise<void>;
+};
+
+export interface VocabularyHighlightStateType {
+  /** Whether saved words are underlined on pages */
+  enabled: boolean;
+  /**
+   * Per-site override of {@link enabled}, keyed by host without `www.`. Applies to subdomains as well.
+   */
+  sites: Record<string, boolean>;
+}
+
+export type VocabularyHighlightStorageType = BaseStorageType<VocabularyHighlightStateType> & {
+  setEnabled: (enabled: boolean) => Promise<void>;
+  /**
+   * Pass `null` to remove the site's override.
+   */
+  setSiteEnabled: (host: string, enabled: boolean | null) => Promise<void>;
+};
+
+export type SiteListModeType = 'block-list' | 'allow-list';
+
+export interface SiteAccessStateType {
+  /**
+   * With a block list the extension runs everywhere but on {@link blockList}, with an allow list only on
+   * {@link allowList}. The block list applies in both modes.
+   */
+  mode: SiteListModeType;
+  /**
+   * Domain patterns. `example.com` covers its subdomains as well, `*` stands for any part of a host name, like in
+   * `*.example.com` or `example.*`.
+   */
+  blockList: string[];
+  allowList: string[];
+  /** Time in milliseconds until which the extension is paused everywhere, 0 when it isn't */
+  pausedUntil: number;
+}
+
+export type SiteAccessStorageType = BaseStorageType<SiteAccessStateType> & {
+  setMode: (mode: SiteListModeType) => Promise<void>;
+  setBlockList: (blockList: string[]) => Promise<void>;
+  setAllowList: (allowList: string[]) => Promise<void>;
+  /**
+   * Disabling puts the host on the block list. Enabling takes it off, and in allow-list mode also puts it on the
+   * allow list. Wildcard patterns covering the host are left as they are.
+   */
+  setSiteEnabled: (host: string, enabled: boolean) => Promise<void>;
+  /**
+   * Pass 0 to resume.
+   */
+  setPausedUntil: (pausedUntil: number) => Promise<void>;
+};
+
+export interface TooltipSettingsStateType {
+  /** Base font size of the tooltip in pixels */
+  fontSize: number;
+  /** Black and white with strong outlines instead of the usual dark grey */
+  highContrast: boolean;
+  /** Drops animations like the loading spinner, also done when the system asks for reduced motion */
+  reducedMotion: boolean;
+}
+
+export type TooltipSettingsStorageType = BaseStorageType<TooltipSettingsStateType> & {
+  setFontSize: (fontSize: number) => Promise<void>;
+  setHighContrast: (highContrast: boolean) => Promise<void>;
+  setReducedMotion: (reducedMotion: boolean) => Promise<void>;
+};
+
+export interface SubtitleSettingsStateType {
+  /** Whether a translated line is shown under the subtitles of videos on pages */
+  enabled: boolean;
+}
+
+export type SubtitleSettingsStorageType = BaseStorageType<SubtitleSettingsStateType> & {
+  setEnabled: (enabled: boolean) => Promise<void>;
+};
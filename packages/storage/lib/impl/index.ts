@@ -1 +1,9 @@
 export * from './example-theme-storage.js';
+export * from './selection-settings-storage.js';
+export * from './site-access-storage.js';
+export * from './source-language-storage.js';
+export * from './subtitle-settings-storage.js';
+export * from './tooltip-settings-storage.js';
+export * from './translator-settings-storage.js';
+export * from './trigger-settings-storage.js';
+export * from './vocabulary-highlight-storage.js';
@@ -0,0 +1,28 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { SelectionSettingsStateType, SelectionSettingsStorageType } from '../base/index.js';
+
+const storage = createStorage<SelectionSettingsStateType>(
+  'selection-settings-storage-key',
+  {
+    maxSelectionLength: 500,
+    maxContextLength: 1000,
+    savePassages: false,
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const selectionSettingsStorage: SelectionSettingsStorageType = {
+  ...storage,
+  setMaxSelectionLength: async maxSelectionLength => {
+    await storage.set(currentState => ({ ...currentState, maxSelectionLength }));
+  },
+  setMaxContextLength: async maxContextLength => {
+    await storage.set(currentState => ({ ...currentState, maxContextLength }));
+  },
+  setSavePassages: async savePassages => {
+    await storage.set(currentState => ({ ...currentState, savePassages }));
+  },
+};
@@ -0,0 +1,46 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { SiteAccessStateType, SiteAccessStorageType } from '../base/index.js';
+
+const storage = createStorage<SiteAccessStateType>(
+  'site-access-storage-key',
+  {
+    mode: 'block-list',
+    blockList: [],
+    allowList: [],
+    pausedUntil: 0,
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const siteAccessStorage: SiteAccessStorageType = {
+  ...storage,
+  setMode: async mode => {
+    await storage.set(currentState => ({ ...currentState, mode }));
+  },
+  setBlockList: async blockList => {
+    await storage.set(currentState => ({ ...currentState, blockList }));
+  },
+  setAllowList: async allowList => {
+    await storage.set(currentState => ({ ...currentState, allowList }));
+  },
+  setSiteEnabled: async (host, enabled) => {
+    await storage.set(currentState => {
+      const blockList = currentState.blockList.filter(pattern => pattern !== host);
+      const allowList = currentState.allowList.filter(pattern => pattern !== host);
+      if (!enabled) {
+        return { ...currentState, blockList: [...blockList, host] };
+      }
+      return {
+        ...currentState,
+        blockList,
+        allowList: currentState.mode === 'allow-list' ? [...allowList, host] : currentState.allowList,
+      };
+    });
+  },
+  setPausedUntil: async pausedUntil => {
+    await storage.set(currentState => ({ ...currentState, pausedUntil }));
+  },
+};
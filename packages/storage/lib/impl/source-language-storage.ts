@@ -0,0 +1,32 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { SourceLanguageStateType, SourceLanguageStorageType } from '../base/index.js';
+
+const storage = createStorage<SourceLanguageStateType>(
+  'source-language-storage-key',
+  {
+    sourceLang: 'auto',
+    siteOverrides: {},
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const sourceLanguageStorage: SourceLanguageStorageType = {
+  ...storage,
+  setSourceLang: async sourceLang => {
+    await storage.set(currentState => ({ ...currentState, sourceLang }));
+  },
+  setSiteOverride: async (host, sourceLang) => {
+    await storage.set(currentState => {
+      const siteOverrides = { ...currentState.siteOverrides };
+      if (sourceLang) {
+        siteOverrides[host] = sourceLang;
+      } else {
+        delete siteOverrides[host];
+      }
+      return { ...currentState, siteOverrides };
+    });
+  },
+};
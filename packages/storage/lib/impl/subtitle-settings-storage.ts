@@ -0,0 +1,20 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { SubtitleSettingsStateType, SubtitleSettingsStorageType } from '../base/index.js';
+
+const storage = createStorage<SubtitleSettingsStateType>(
+  'subtitle-settings-storage-key',
+  {
+    enabled: true,
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const subtitleSettingsStorage: SubtitleSettingsStorageType = {
+  ...storage,
+  setEnabled: async enabled => {
+    await storage.set(currentState => ({ ...currentState, enabled }));
+  },
+};
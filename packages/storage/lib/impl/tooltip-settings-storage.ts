@@ -0,0 +1,28 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { TooltipSettingsStateType, TooltipSettingsStorageType } from '../base/index.js';
+
+const storage = createStorage<TooltipSettingsStateType>(
+  'tooltip-settings-storage-key',
+  {
+    fontSize: 14,
+    highContrast: false,
+    reducedMotion: false,
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const tooltipSettingsStorage: TooltipSettingsStorageType = {
+  ...storage,
+  setFontSize: async fontSize => {
+    await storage.set(currentState => ({ ...currentState, fontSize }));
+  },
+  setHighContrast: async highContrast => {
+    await storage.set(currentState => ({ ...currentState, highContrast }));
+  },
+  setReducedMotion: async reducedMotion => {
+    await storage.set(currentState => ({ ...currentState, reducedMotion }));
+  },
+};
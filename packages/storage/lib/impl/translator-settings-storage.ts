@@ -0,0 +1,42 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { TranslatorSettingsStateType, TranslatorSettingsStorageType } from '../base/index.js';
+
+const storage = createStorage<TranslatorSettingsStateType>(
+  'translator-settings-storage-key',
+  {
+    provider: 'deepl-free',
+    endpoints: {},
+    apiKeys: {},
+    contextAware: false,
+    dictionaryLookup: true,
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const translatorSettingsStorage: TranslatorSettingsStorageType = {
+  ...storage,
+  setProvider: async provider => {
+    await storage.set(currentState => ({ ...currentState, provider }));
+  },
+  setEndpoint: async (provider, endpoint) => {
+    await storage.set(currentState => ({
+      ...currentState,
+      endpoints: { ...currentState.endpoints, [provider]: endpoint.trim() },
+    }));
+  },
+  setApiKey: async (provider, apiKey) => {
+    await storage.set(currentState => ({
+      ...currentState,
+      apiKeys: { ...currentState.apiKeys, [provider]: apiKey.trim() },
+    }));
+  },
+  setContextAware: async contextAware => {
+    await storage.set(currentState => ({ ...currentState, contextAware }));
+  },
+  setDictionaryLookup: async dictionaryLookup => {
+    await storage.set(currentState => ({ ...currentState, dictionaryLookup }));
+  },
+};
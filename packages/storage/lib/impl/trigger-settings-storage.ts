@@ -0,0 +1,40 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { TriggerSettingsStateType, TriggerSettingsStorageType } from '../base/index.js';
+
+const storage = createStorage<TriggerSettingsStateType>(
+  'trigger-settings-storage-key',
+  {
+    mode: 'selection',
+    modifierKey: 'alt',
+    hoverDelay: 600,
+    siteModes: {},
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const triggerSettingsStorage: TriggerSettingsStorageType = {
+  ...storage,
+  setMode: async mode => {
+    await storage.set(currentState => ({ ...currentState, mode }));
+  },
+  setModifierKey: async modifierKey => {
+    await storage.set(currentState => ({ ...currentState, modifierKey }));
+  },
+  setHoverDelay: async hoverDelay => {
+    await storage.set(currentState => ({ ...currentState, hoverDelay }));
+  },
+  setSiteMode: async (host, mode) => {
+    await storage.set(currentState => {
+      const siteModes = { ...currentState.siteModes };
+      if (mode) {
+        siteModes[host] = mode;
+      } else {
+        delete siteModes[host];
+      }
+      return { ...currentState, siteModes };
+    });
+  },
+};
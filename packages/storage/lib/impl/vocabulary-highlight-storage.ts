@@ -0,0 +1,32 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+import type { VocabularyHighlightStateType, VocabularyHighlightStorageType } from '../base/index.js';
+
+const storage = createStorage<VocabularyHighlightStateType>(
+  'vocabulary-highlight-storage-key',
+  {
+    enabled: true,
+    sites: {},
+  },
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const vocabularyHighlightStorage: VocabularyHighlightStorageType = {
+  ...storage,
+  setEnabled: async enabled => {
+    await storage.set(currentState => ({ ...currentState, enabled }));
+  },
+  setSiteEnabled: async (host, enabled) => {
+    await storage.set(currentState => {
+      const sites = { ...currentState.sites };
+      if (enabled === null) {
+        delete sites[host];
+      } else {
+        sites[host] = enabled;
+      }
+      return { ...currentState, sites };
+    });
+  },
+};
@@ -6,3 +6,18 @@ export type BaseStorageType<D> = {
   getSnapshot: () => D | null;
   subscribe: (listener: () => void) => () => void;
 };
+
+export type {
+  SelectionSettingsStateType,
+  SiteAccessStateType,
+  SiteListModeType,
+  SourceLanguageStateType,
+  SubtitleSettingsStateType,
+  TooltipSettingsStateType,
+  TranslationProviderIdType,
+  TranslatorSettingsStateType,
+  TriggerModeType,
+  TriggerModifierKeyType,
+  TriggerSettingsStateType,
+  VocabularyHighlightStateType,
+} from './base/index.js';
@@ -0,0 +1,54 @@
+import { readingSession } from '@src/reading/session';
+import { useState, useSyncExternalStore } from 'react';
+import type { ReadingState } from '@src/reading/session';
+
+const getTitle = ({ status, done, total }: ReadingState) => {
+  if (status === 'translating') return total ? `Translating ${done} of ${total} paragraphs…` : 'Finding the article…';
+  if (status === 'done') return total ? `Translated ${done} paragraphs` : 'No article found on this page';
+  if (status === 'cancelled') return `Stopped after ${done} of ${total} paragraphs`;
+  if (status === 'limit') return `Monthly character limit reached after ${done} of ${total} paragraphs`;
+  return 'Translation failed';
+};
+
+// Warns up front when the article won't fit in what is left of the month's characters
+const getBudgetNote = ({ status, characters, remaining }: ReadingState) =>
+  status === 'translating' && remaining !== undefined && characters > remaining
+    ? `This page has about ${characters.toLocaleString()} characters and ${remaining.toLocaleString()} are left this month, it is translated as far as they go.`
+    : '';
+
+const App = () => {
+  const state = useSyncExternalStore(readingSession.subscribe, readingSession.getSnapshot);
+  const [hidden, setHidden] = useState(false);
+  if (!state || hidden) return null;
+
+  const note = getBudgetNote(state);
+
+  return (
+    <div className="reading-panel" role="status" aria-live="polite">
+      <p className="reading-panel-title">{getTitle(state)}</p>
+      {state.status === 'translating' && state.total > 0 && (
+        <progress className="reading-panel-progress" value={state.done} max={state.total} />
+      )}
+      {state.error && <p className="reading-panel-note reading-panel-error">{state.error}</p>}
+      {note && <p className="reading-panel-note">{note}</p>}
+
+      <div className="reading-panel-actions">
+        {state.status === 'translating' && <button onClick={readingSession.cancel}>Cancel</button>}
+        {state.status === 'cancelled' && <button onClick={readingSession.resume}>Translate the rest</button>}
+        {state.status === 'error' && <button onClick={readingSession.resume}>Try again</button>}
+        <button onClick={readingSession.revert}>Show original</button>
+      </div>
+
+      {/* The translations stay; "Translate this page" again brings the original back */}
+      <button
+        className="reading-panel-close"
+        onClick={() => setHidden(true)}
+        title="Hide this panel"
+        aria-label="Hide this panel">
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default App;
@@ -0,0 +1,39 @@
+// Reading mode, injected into the top frame by the background on "Translate this page". The script stays in the
+// page once injected, so an injection into a page that has it already toggles that one instead of starting over.
+import inlineCss from '../../../dist/reading/index.css?inline';
+import { initAppWithShadow } from '@extension/shared';
+import App from '@src/matches/reading/App';
+import { readingSession } from '@src/reading/session';
+
+declare global {
+  interface Window {
+    highlightTranslatorReadingMode?: { toggle: () => void };
+  }
+}
+
+const PANEL_HOST_ID = 'highlight-translator-reading';
+
+const toggle = () => {
+  if (readingSession.getSnapshot()) {
+    readingSession.revert();
+  } else {
+    readingSession.start();
+  }
+};
+
+// The panel is there for as long as the session, so nothing of reading mode is left in the page once reverted
+readingSession.subscribe(() => {
+  const host = document.getElementById(PANEL_HOST_ID);
+  if (!readingSession.getSnapshot()) {
+    host?.remove();
+  } else if (!host) {
+    initAppWithShadow({ id: PANEL_HOST_ID, app: <App />, inlineCss });
+  }
+});
+
+if (window.highlightTranslatorReadingMode) {
+  window.highlightTranslatorReadingMode.toggle();
+} else {
+  window.highlightTranslatorReadingMode = { toggle };
+  toggle();
+}
@@ -0,0 +1,97 @@
+// Finds the paragraphs of a page's main article: the landmark or container holding most of the page's paragraph
+// text, then the innermost text blocks in it, leaving out navigation, asides, forms and code.
+import { getTextWithoutTranslation } from '@src/reading/translation-node';
+
+// Elements whose text gets a translation of its own
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, blockquote, dd, dt, figcaption, td, th, caption';
+// Places explicitly marked as the article, in order of trust
+const ARTICLE_SELECTOR = '[itemprop="articleBody"], article, [role="main"], main';
+// Text in these isn't the article's, or isn't prose
+const SKIPPED_SELECTOR = [
+  'nav',
+  'aside',
+  'footer',
+  'form',
+  'menu',
+  'dialog',
+  'button',
+  'pre',
+  'code',
+  'textarea',
+  'select',
+  '[role="navigation"]',
+  '[role="complementary"]',
+  '[role="contentinfo"]',
+  '[role="dialog"]',
+  '[aria-hidden="true"]',
+  '[contenteditable]',
+  '[translate="no"]',
+  '.notranslate',
+].join(', ');
+// A landmark with less paragraph text than this is likely a teaser, not the article
+const MIN_ARTICLE_TEXT = 500;
+
+const normalizeSpaces = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Something worth reading in another language rather than numbers, symbols or a single letter
+const hasWords = (text: string) => /\p{L}{2}/u.test(text);
+
+const getParagraphText = (root: Element) =>
+  Array.from(root.querySelectorAll('p')).reduce(
+    (total, paragraph) => total + (paragraph.closest(SKIPPED_SELECTOR) ? 0 : (paragraph.textContent?.length ?? 0)),
+    0,
+  );
+
+// Without landmarks, the element whose own paragraphs have the most text, like the article body of a blog theme
+const findParagraphContainer = () => {
+  const scores = new Map<Element, number>();
+  document.querySelectorAll('p').forEach(paragraph => {
+    const parent = paragraph.parentElement;
+    if (!parent || paragraph.closest(SKIPPED_SELECTOR)) return;
+    scores.set(parent, (scores.get(parent) ?? 0) + (paragraph.textContent?.length ?? 0));
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    if (score > bestScore) {
+      best = element;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const findArticleRoot = (): Element => {
+  const landmarks = Array.from(document.querySelectorAll(ARTICLE_SELECTOR)).filter(
+    element => !element.parentElement?.closest(SKIPPED_SELECTOR),
+  );
+  const scored = landmarks.map(element => ({ element, score: getParagraphText(element) }));
+  const best = scored.reduce<(typeof scored)[number] | null>(
+    (winner, candidate) => (candidate.score > (winner?.score ?? 0) ? candidate : winner),
+    null,
+  );
+  if (best && best.score >= MIN_ARTICLE_TEXT) return best.element;
+
+  return findParagraphContainer() ?? document.body;
+};
+
+const isVisible = (element: Element) => element.getClientRects().length > 0;
+
+/**
+ * Text blocks of the main article in document order, each with its text. Blocks holding other blocks, like a list
+ * item made of paragraphs, are left to the blocks inside them.
+ */
+const findArticleBlocks = (): { element: HTMLElement; text: string }[] => {
+  const root = findArticleRoot();
+  const candidates = Array.from(root.querySelectorAll<HTMLElement>(BLOCK_SELECTOR));
+  if (root instanceof HTMLElement && root.matches(BLOCK_SELECTOR)) candidates.unshift(root);
+
+  return candidates
+    .filter(element => !element.closest(SKIPPED_SELECTOR) && !element.querySelector(BLOCK_SELECTOR))
+    .filter(isVisible)
+    .map(element => ({ element, text: normalizeSpaces(getTextWithoutTranslation(element)) }))
+    .filter(({ text }) => hasWords(text));
+};
+
+export { findArticleBlocks };
@@ -0,0 +1,172 @@
+// A reading mode session: the article's paragraphs are sent to the background in batches, in page order, and each
+// translation goes in with its paragraph as it arrives. Only elements are added to the page, so reverting removes
+// them and leaves the DOM as it was.
+import { MessageErrorCodeEnum, sendMessage } from '@extension/messaging';
+import { findArticleBlocks } from '@src/reading/article';
+import { insertTranslation } from '@src/reading/translation-node';
+
+type ReadingStatus = 'translating' | 'done' | 'cancelled' | 'limit' | 'error';
+
+interface ReadingState {
+  status: ReadingStatus;
+  /** Paragraphs translated so far, out of `total` */
+  done: number;
+  total: number;
+  /** Characters in the paragraphs left to translate when the session started or resumed */
+  characters: number;
+  /** Characters left in the month's budget when the session started, unknown when the background didn't say */
+  remaining?: number;
+  error?: string;
+}
+
+interface Block {
+  element: HTMLElement;
+  text: string;
+}
+
+// Batches stay well within what one provider request takes
+const BATCH_TEXTS = 25;
+const BATCH_CHARACTERS = 4000;
+// Longest paragraph sent as is, the background refuses longer ones
+const MAX_TEXT_LENGTH = 5000;
+
+const listeners = new Set<() => void>();
+let state: ReadingState | null = null;
+// Increases with every session so batches still on their way for an earlier one are dropped
+let sessionId = 0;
+// Paragraphs translated so far, with the element holding the translation, or null when it came back empty
+let translated = new Map<HTMLElement, HTMLElement | null>();
+
+const setState = (next: ReadingState | null) => {
+  state = next;
+  listeners.forEach(listener => listener());
+};
+
+// Consecutive paragraphs, up to the batch limits; a paragraph longer than a batch goes on its own
+const toBatches = (blocks: Block[]) => {
+  const batches: Block[][] = [];
+  let current: Block[] = [];
+  let characters = 0;
+  for (const block of blocks) {
+    if (current.length && (current.length >= BATCH_TEXTS || characters + block.text.length > BATCH_CHARACTERS)) {
+      batches.push(current);
+      current = [];
+      characters = 0;
+    }
+    current.push(block);
+    characters += block.text.length;
+  }
+  if (current.length) batches.push(current);
+  return batches;
+};
+
+const clear = () => {
+  sessionId++;
+  translated.forEach(node => node?.remove());
+  translated = new Map();
+};
+
+const getRemaining = async () => {
+  const response = await sendMessage('subscription.getUsage');
+  return response.success ? Math.max(response.data.limit - response.data.used, 0) : undefined;
+};
+
+const run = async (id: number, blocks: Block[]) => {
+  const pageLang = document.documentElement.lang || undefined;
+
+  for (const batch of toBatches(blocks)) {
+    const response = await sendMessage('page.translate', {
+      texts: batch.map(({ text }) => text.slice(0, MAX_TEXT_LENGTH)),
+      url: window.location.href,
+      pageLang,
+    });
+    // A batch that was on its way when the session was cancelled is paid for, so its translations still go in
+    if (id !== sessionId || !state) return;
+
+    if (!response.success) {
+      if (state.status !== 'translating') return;
+      const error =
+        response.code === MessageErrorCodeEnum.ExtensionDisabled
+          ? 'The extension was switched off for this page'
+          : response.error;
+      setState({ ...state, status: 'error', error });
+      return;
+    }
+
+    const { translations, limitReached, targetLang } = response.data;
+    batch.forEach((block, i) => {
+      const translation = translations[i];
+      if (translation === null) return;
+      translated.set(block.element, translation ? insertTranslation(block.element, translation, targetLang) : null);
+    });
+    setState({ ...state, done: state.done + translations.filter(translation => translation !== null).length });
+
+    if (state.status !== 'translating') return;
+    if (limitReached) {
+      setState({ ...state, status: 'limit' });
+      return;
+    }
+  }
+
+  if (state?.status === 'translating') setState({ ...state, status: 'done' });
+};
+
+// Sends the article's paragraphs that have no translation yet; earlier batches still on their way are dropped
+const translateArticle = async () => {
+  sessionId++;
+  const id = sessionId;
+  const blocks = findArticleBlocks();
+  const pending = blocks.filter(({ element }) => !translated.has(element));
+  const characters = pending.reduce((total, { text }) => total + text.length, 0);
+
+  setState({ status: 'translating', done: blocks.length - pending.length, total: blocks.length, characters });
+  const remaining = await getRemaining();
+  if (id !== sessionId || !state) return;
+  setState({ ...state, remaining });
+  if (pending.length === 0) {
+    setState({ ...state, status: 'done' });
+    return;
+  }
+  await run(id, pending);
+};
+
+/**
+ * Translates the article on the page, replacing any earlier session.
+ */
+const start = () => {
+  clear();
+  return translateArticle();
+};
+
+/**
+ * Continues a cancelled or failed session with the paragraphs that have no translation yet, keeping the ones that
+ * have, so they aren't paid for twice.
+ */
+const resume = () => translateArticle();
+
+/**
+ * Stops sending paragraphs, keeping the translations already in the page.
+ */
+const cancel = () => {
+  if (state?.status === 'translating') setState({ ...state, status: 'cancelled' });
+};
+
+/**
+ * Removes every translation and ends the session.
+ */
+const revert = () => {
+  clear();
+  setState(null);
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getSnapshot = () => state;
+
+export const readingSession = { start, resume, cancel, revert, subscribe, getSnapshot };
+export type { ReadingState, ReadingStatus };
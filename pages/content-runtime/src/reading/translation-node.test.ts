@@ -0,0 +1,101 @@
+import { getTextWithoutTranslation, insertTranslation } from './translation-node.js';
+import { parseHTML } from 'linkedom';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+const TRANSLATION_TAG = 'HIGHLIGHT-TRANSLATOR-TRANSLATION';
+
+const render = (html: string, selector: string) => {
+  const { document } = parseHTML(`<!doctype html><html><body>${html}</body></html>`);
+  const element = document.querySelector<HTMLElement>(selector);
+  assert.ok(element, `No ${selector} in ${html}`);
+  return { document, element };
+};
+
+describe('insertTranslation', () => {
+  const cases = [
+    { name: 'a paragraph', html: '<div><p>Hello</p></div>', selector: 'p', placement: 'after' },
+    { name: 'a heading', html: '<h2>Hello</h2>', selector: 'h2', placement: 'after' },
+    { name: 'a quote', html: '<blockquote>Hello</blockquote>', selector: 'blockquote', placement: 'after' },
+    { name: 'a list item', html: '<ul><li>Hello</li><li>World</li></ul>', selector: 'li', placement: 'inside' },
+    { name: 'an ordered list item', html: '<ol><li>Hello</li></ol>', selector: 'li', placement: 'inside' },
+    { name: 'a term', html: '<dl><dt>Hello</dt><dd>World</dd></dl>', selector: 'dt', placement: 'inside' },
+    { name: 'a definition', html: '<dl><dt>Hello</dt><dd>World</dd></dl>', selector: 'dd', placement: 'inside' },
+    {
+      name: 'a table cell',
+      html: '<table><tbody><tr><td>Hello</td><td>World</td></tr></tbody></table>',
+      selector: 'td',
+      placement: 'inside',
+    },
+    {
+      name: 'a header cell',
+      html: '<table><thead><tr><th>Hello</th></tr></thead></table>',
+      selector: 'th',
+      placement: 'inside',
+    },
+    {
+      name: 'a table caption',
+      html: '<table><caption>Hello</caption><tbody><tr><td>1</td></tr></tbody></table>',
+      selector: 'caption',
+      placement: 'inside',
+    },
+    {
+      name: 'a figure caption',
+      html: '<figure><img src="a.png" alt=""><figcaption>Hello</figcaption></figure>',
+      selector: 'figcaption',
+      placement: 'inside',
+    },
+  ];
+
+  for (const { name, html, selector, placement } of cases) {
+    it(`puts the translation of ${name} ${placement} it`, () => {
+      const { element } = render(html, selector);
+      const node = insertTranslation(element, 'Hola', 'es');
+
+      assert.equal(node.textContent, 'Hola');
+      assert.equal(node.lang, 'es');
+      if (placement === 'inside') {
+        assert.equal(node.parentElement, element);
+      } else {
+        assert.equal(element.nextElementSibling, node);
+      }
+    });
+  }
+
+  it('keeps lists made of list items only', () => {
+    const { document } = render('<ul><li>Hello</li><li>World</li></ul>', 'ul');
+    document.querySelectorAll<HTMLElement>('li').forEach(item => insertTranslation(item, 'Hola', 'es'));
+
+    const children = Array.from(document.querySelector('ul')?.children ?? []).map(child => child.tagName);
+    assert.deepEqual(children, ['LI', 'LI']);
+  });
+
+  it('keeps table rows made of cells only', () => {
+    const { document } = render('<table><tbody><tr><th>Name</th><td>Hello</td></tr></tbody></table>', 'tr');
+    document.querySelectorAll<HTMLElement>('th, td').forEach(cell => insertTranslation(cell, 'Hola', 'es'));
+
+    const children = Array.from(document.querySelector('tr')?.children ?? []).map(child => child.tagName);
+    assert.deepEqual(children, ['TH', 'TD']);
+    assert.equal(document.querySelectorAll(TRANSLATION_TAG).length, 2);
+  });
+});
+
+describe('getTextWithoutTranslation', () => {
+  const cases = [
+    { name: 'a list item', html: '<ul><li>Hello <b>there</b></li></ul>', selector: 'li' },
+    {
+      name: 'a table cell',
+      html: '<table><tbody><tr><td>Hello <b>there</b></td></tr></tbody></table>',
+      selector: 'td',
+    },
+    { name: 'a paragraph', html: '<p>Hello <b>there</b></p>', selector: 'p' },
+  ];
+
+  for (const { name, html, selector } of cases) {
+    it(`reads ${name} as it was before it was translated`, () => {
+      const { element } = render(html, selector);
+      insertTranslation(element, 'Hola', 'es');
+      assert.equal(getTextWithoutTranslation(element).replace(/\s+/g, ' ').trim(), 'Hello there');
+    });
+  }
+});
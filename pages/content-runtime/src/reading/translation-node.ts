@@ -0,0 +1,39 @@
+// Where a paragraph's translation goes in the page. Text blocks whose parent only takes particular children, like a
+// list item, a table cell or a definition, get it as their last child; elsewhere it follows the block, which keeps the
+// block's own text as it was.
+
+// A custom element, so page styles for paragraphs don't apply to it
+const TRANSLATION_TAG = 'highlight-translator-translation';
+const TRANSLATION_STYLE = 'display: block; margin-top: 0.25em; opacity: 0.75;';
+// Blocks a sibling would end up in a list, table, definition list or figure next to, where it doesn't belong
+const CONTAINED_BLOCK_TAGS = new Set(['LI', 'DD', 'DT', 'TD', 'TH', 'CAPTION', 'FIGCAPTION']);
+
+/**
+ * Adds a translation to the page for a text block and returns the element holding it.
+ */
+const insertTranslation = (element: HTMLElement, translation: string, lang: string) => {
+  const node = element.ownerDocument.createElement(TRANSLATION_TAG);
+  node.setAttribute('style', TRANSLATION_STYLE);
+  node.lang = lang;
+  node.dir = 'auto';
+  node.textContent = translation;
+  if (CONTAINED_BLOCK_TAGS.has(element.tagName.toUpperCase())) {
+    element.append(node);
+  } else {
+    element.after(node);
+  }
+  return node;
+};
+
+/**
+ * Text of a block as the page has it, leaving out a translation added inside it.
+ */
+const getTextWithoutTranslation = (element: HTMLElement) => {
+  if (!element.querySelector(TRANSLATION_TAG)) return element.innerText;
+  const copy = element.cloneNode(true) as HTMLElement;
+  copy.querySelectorAll(TRANSLATION_TAG).forEach(node => node.remove());
+  // innerText of an element outside the page is its textContent
+  return copy.textContent ?? '';
+};
+
+export { getTextWithoutTranslation, insertTranslation };
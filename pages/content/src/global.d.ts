@@ -0,0 +1,4 @@
+declare module '*?inline' {
+  const src: string;
+  export default src;
+}
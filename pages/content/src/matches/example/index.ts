@@ -1,112 +1,238 @@
 // content.ts
 // Runs in the page. Detects text selection and requests translation from the background service worker.
-let tooltip: HTMLDivElement | null = null;
+import { MessageErrorCodeEnum, onBroadcast, sendMessage } from '@extension/messaging';
+import { findSiteSetting } from '@extension/shared';
+import { selectionSettingsStorage, triggerSettingsStorage } from '@extension/storage';
+import { classifySelection, getSentenceContext, snapToWords, truncateToWords } from '@src/segmentation';
+import { fromRange, getNodeLang, readSelection } from '@src/selection-sources';
+import { watchSiteAccess } from '@src/site-access';
+import { dualSubtitles } from '@src/subtitles';
+import { tooltip } from '@src/tooltip';
+import { pointReference } from '@src/tooltip/position';
+import { vocabularyHighlighter } from '@src/vocabulary';
+import type { BroadcastMap, SelectionLimits } from '@extension/messaging';
+import type { TriggerModeType, TriggerSettingsStateType } from '@extension/storage';
+import type { SelectionKind } from '@src/segmentation';
+import type { SelectionSource } from '@src/selection-sources';
+import type { SubtitleWord } from '@src/subtitles/overlay';
+import type { TooltipAnchor } from '@src/tooltip/store';
+
+type Selected = { word: string; kind: SelectionKind; context: string; pageLang?: string };
+
+type TranslateSelectionOptions = { event?: Event; text?: string; targetLang?: string };
+
+const MODIFIER_PROPS = { alt: 'altKey', ctrl: 'ctrlKey', shift: 'shiftKey', meta: 'metaKey' } as const;
+
 let lastSelection: string = '';
+let triggerSettings: TriggerSettingsStateType | null = null;
+let hoverTimer: ReturnType<typeof setTimeout> | undefined;
+let stopListening: (() => void) | null = null;
+// The signed-out plan's limits until the background answers
+let limits: SelectionLimits = { maxSelectionLength: 50, maxContextLength: 300, savePassages: false };
+
+// Settings are read once and then kept in sync, so changes apply to open pages right away
+triggerSettingsStorage.get().then(settings => (triggerSettings = settings));
+triggerSettingsStorage.subscribe(() => {
+  triggerSettings = triggerSettingsStorage.getSnapshot();
+  clearTimeout(hoverTimer);
+});
 
-const removeTooltip = (): void => {
-  if (tooltip) {
-    tooltip.remove();
-    tooltip = null;
-  }
+// Settings lowered by the plan's entitlements; the background checks them again on every request
+const refreshLimits = async () => {
+  const response = await sendMessage('selection.getLimits');
+  if (response.success) limits = response.data;
 };
+selectionSettingsStorage.subscribe(() => {
+  if (stopListening) refreshLimits();
+});
 
-const showTooltip = (text: string, rect: DOMRect | { top: number; left: number }): void => {
-  if (!text || text.trim() === '') return;
-  removeTooltip();
-
-  const div = document.createElement('div');
-  div.className = 'translation-tooltip';
-  div.innerText = text;
+const getTriggerMode = (): TriggerModeType | null =>
+  triggerSettings && (findSiteSetting(window.location.href, triggerSettings.siteModes) ?? triggerSettings.mode);
 
-  const top = window.scrollY + Math.max(0, rect.top - 36);
-  const left = window.scrollX + Math.max(0, rect.left);
-  div.style.top = `${top}px`;
-  div.style.left = `${left}px`;
+const normalizeSpaces = (text: string) => text.replace(/\s+/g, ' ').trim();
 
-  document.body.appendChild(div);
-  tooltip = div;
+// Selected words, snapped to word boundaries and truncated, with the sentences around them as context
+const readSource = ({ text, span, lang }: SelectionSource): Selected | null => {
+  const wordSpan = truncateToWords(text, snapToWords(text, span, lang), limits.maxSelectionLength, lang);
+  const word = text.slice(wordSpan.start, wordSpan.end).trim();
+  if (!word) return null;
 
-  setTimeout(() => {
-    if (tooltip) tooltip.remove();
-    tooltip = null;
-  }, 7000);
+  // A passage is its own context
+  const kind = classifySelection(word, lang);
+  const context =
+    kind === 'passage'
+      ? word
+      : getSentenceContext(text, wordSpan, { locale: lang, maxLength: limits.maxContextLength });
+  return { word, kind, context, pageLang: lang };
 };
 
-document.addEventListener('mousedown', removeTooltip);
+// Text without a place in the page, like a selection the context menu reports but this frame can't find
+const readText = (text: string): Selected | null => {
+  const trimmed = text.trim();
+  const pageLang = document.documentElement.lang || undefined;
+  const wordSpan = truncateToWords(trimmed, { start: 0, end: trimmed.length }, limits.maxSelectionLength, pageLang);
+  const word = trimmed.slice(wordSpan.start, wordSpan.end);
+  if (!word) return null;
 
-document.addEventListener('mouseup', (ev: MouseEvent) => {
-  const selection = window.getSelection();
-  let selectedText: string = selection?.toString().trim() ?? '';
+  const kind = classifySelection(word, pageLang);
+  return { word, kind, context: kind === 'passage' ? word : trimmed.substring(0, limits.maxContextLength), pageLang };
+};
 
-  if (!selectedText) {
-    lastSelection = '';
+const translate = async (selected: Selected, anchor: TooltipAnchor, targetLang?: string) => {
+  const request = { ...selected, url: window.location.href, targetLang };
+  const id = tooltip.open(request, anchor);
+
+  // Send to background for translation
+  const response = await sendMessage('translate', {
+    highlightedWord: request.word, // The truncated word
+    text: request.context, // The surrounding context
+    url: request.url,
+    pageLang: request.pageLang,
+    targetLang: request.targetLang,
+    // Passages are read rather than learned, they are saved from the tooltip when wanted
+    save: request.kind !== 'passage' || limits.savePassages,
+  });
+  // Picks up plan changes, like signing in, for the next selection
+  refreshLimits();
+  if (!response.success) {
+    // Switched off in the meantime
+    if (response.code === MessageErrorCodeEnum.ExtensionDisabled) {
+      tooltip.close();
+      return;
+    }
+    tooltip.fail(id, response.error);
     return;
   }
-  console.log(selectedText);
-  // --- NEW: Truncate to 10 characters max ---
-  if (selectedText.length > 50) {
-    selectedText = selectedText.substring(0, 50);
-    console.log(selectedText);
+  if (!response.data.translation.trim()) {
+    tooltip.close();
+    return;
   }
+  tooltip.resolve(id, response.data);
+  // Underlines the new word elsewhere on the page
+  if (response.data.flashcardId) vocabularyHighlighter.refresh(request.word);
+};
+
+// Translates the selection in this frame, or the given text when it comes from outside like the context menu
+const translateSelection = (fallback: TooltipAnchor, { event, text, targetLang }: TranslateSelectionOptions = {}) => {
+  const source = readSelection(event);
+  const sourceText = source && normalizeSpaces(source.text.slice(source.span.start, source.span.end));
+  const useSource = source && (text === undefined || sourceText === normalizeSpaces(text));
+  const selected = useSource ? readSource(source) : text !== undefined ? readText(text) : null;
 
-  // Avoid duplicate requests
-  if (selectedText === lastSelection) return;
-  lastSelection = selectedText;
-
-  // Determine bounding rect for tooltip
-  let rect: DOMRect | { top: number; left: number };
-  try {
-    const range = selection?.getRangeAt(0);
-    rect = range ? range.getBoundingClientRect() : { top: ev.clientY, left: ev.clientX };
-  } catch {
-    rect = { top: ev.clientY, left: ev.clientX };
+  if (!selected) {
+    lastSelection = '';
+    return;
   }
 
-  // --- Grab context around the selection ---
-  let contextText = selectedText;
+  // Avoid duplicate requests; a language picked from the context menu is always a new request
+  if (selected.word === lastSelection && !targetLang && tooltip.getSnapshot()) return;
+  lastSelection = selected.word;
 
-  try {
-    const range = selection?.getRangeAt(0);
-    if (range) {
-      const node = range.startContainer;
-      const blockElement = node.parentElement?.closest('p, div, li, span') ?? node.parentElement;
+  // Ranges in hidden or collapsed elements have no size to anchor to
+  const rect = useSource ? source.anchor.getBoundingClientRect() : null;
+  const anchor = useSource && (rect?.top || rect?.left) ? source.anchor : fallback;
+  translate(selected, anchor, targetLang);
+};
 
-      if (blockElement) {
-        const blockText = (blockElement as HTMLElement).innerText;
+// Word under the pointer, found from the caret position
+const getWordRangeAt = (x: number, y: number) => {
+  const caret = document.caretRangeFromPoint?.(x, y);
+  const node = caret?.startContainer;
+  if (!caret || node?.nodeType !== Node.TEXT_NODE) return null;
 
-        // Split into sentences
-        const sentences = blockText.match(/[^.!?]+[.!?]+/g) || [blockText];
+  const caretSpan = { start: caret.startOffset, end: caret.startOffset };
+  const { start, end } = snapToWords(node.textContent ?? '', caretSpan, getNodeLang(node));
+  if (start === end) return null;
 
-        // Find the sentence containing the (now truncated) selection
-        const idx = sentences.findIndex(s => s.includes(selectedText));
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
 
-        if (idx !== -1) {
-          const before = sentences[idx - 1] || '';
-          const current = sentences[idx];
-          const after = sentences[idx + 1] || '';
-          contextText = [before, current, after].filter(Boolean).join(' ').trim();
-        }
-      }
-    }
-  } catch (err) {
-    console.error('Error grabbing context:', err);
-    contextText = selectedText; // fallback to truncated selection
+  // The caret snaps to the nearest text, so make sure the pointer is actually on the word
+  const rect = range.getBoundingClientRect();
+  return x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom ? range : null;
+};
+
+const pointAnchor = (ev: MouseEvent) => pointReference(ev.clientX, ev.clientY);
+
+// Clicks inside the tooltip use its buttons, and a pinned tooltip stays until it is closed
+const onMouseDown = (ev: MouseEvent) => {
+  if (tooltip.isTooltipEvent(ev) || tooltip.getSnapshot()?.pinned) return;
+  tooltip.close();
+};
+
+const onMouseUp = (ev: MouseEvent) => {
+  if (tooltip.isTooltipEvent(ev) || !triggerSettings) return;
+
+  const mode = getTriggerMode();
+  if (mode === 'selection' || (mode === 'modifier' && ev[MODIFIER_PROPS[triggerSettings.modifierKey]])) {
+    translateSelection(pointAnchor(ev), { event: ev });
   }
+};
 
-  // Optional: truncate context for tooltip/translation requests
-  const truncatedContext = contextText.length > 300 ? contextText.substring(0, 300) : contextText;
+const onDoubleClick = (ev: MouseEvent) => {
+  if (tooltip.isTooltipEvent(ev) || getTriggerMode() !== 'double-click') return;
+  translateSelection(pointAnchor(ev), { event: ev });
+};
 
-  // Send to background for translation
-  chrome.runtime.sendMessage(
-    {
-      type: 'translate',
-      highlightedWord: selectedText, // The truncated word
-      text: truncatedContext, // The surrounding context
-      url: window.location.href,
-    },
-    (response?: { translation?: string }) => {
-      if (!response || !response.translation) return;
-      showTooltip(response.translation, rect);
-    },
-  );
+const onMouseMove = (ev: MouseEvent) => {
+  clearTimeout(hoverTimer);
+  if (!triggerSettings || getTriggerMode() !== 'hover' || tooltip.isTooltipEvent(ev)) return;
+
+  hoverTimer = setTimeout(() => {
+    const range = getWordRangeAt(ev.clientX, ev.clientY);
+    const source = range && fromRange(range);
+    const selected = source && readSource(source);
+    if (!source || !selected || (selected.word === lastSelection && tooltip.getSnapshot())) return;
+
+    lastSelection = selected.word;
+    translate(selected, source.anchor);
+  }, triggerSettings.hoverDelay);
+};
+
+// The keyboard shortcut works in every mode but manual, the context menu is always explicit. The shortcut reaches
+// every frame of the tab, and only the one holding a selection answers it.
+const onTranslateSelection = ({ source, text, targetLang }: BroadcastMap['translateSelection']) => {
+  if (source === 'shortcut' && getTriggerMode() === 'manual') return;
+
+  const center = pointReference(window.innerWidth / 2, window.innerHeight / 2);
+  translateSelection(center, { text, targetLang });
+};
+
+// A word clicked in a video's subtitles, looked up and saved like a selection with the cue as its context
+const onSubtitleWord = ({ word, context, lang, anchor }: SubtitleWord) => {
+  lastSelection = word;
+  const kind = classifySelection(word, lang);
+  translate({ word, kind, context: context.slice(0, limits.maxContextLength), pageLang: lang }, anchor);
+};
+
+// Nothing is attached on sites the extension is off on, so they don't hear from it at all
+const listen = () => {
+  document.addEventListener('mousedown', onMouseDown);
+  document.addEventListener('mouseup', onMouseUp);
+  document.addEventListener('dblclick', onDoubleClick);
+  document.addEventListener('mousemove', onMouseMove);
+  const stopTranslateBroadcast = onBroadcast('translateSelection', onTranslateSelection);
+  const stopFocusBroadcast = onBroadcast('focusTooltip', tooltip.focus);
+  const stopSubtitles = dualSubtitles.start(onSubtitleWord);
+  const stopVocabulary = vocabularyHighlighter.start();
+  refreshLimits();
+
+  return () => {
+    document.removeEventListener('mousedown', onMouseDown);
+    document.removeEventListener('mouseup', onMouseUp);
+    document.removeEventListener('dblclick', onDoubleClick);
+    document.removeEventListener('mousemove', onMouseMove);
+    stopTranslateBroadcast();
+    stopFocusBroadcast();
+    stopSubtitles();
+    stopVocabulary();
+    clearTimeout(hoverTimer);
+    tooltip.close();
+  };
+};
+
+watchSiteAccess(enabled => {
+  stopListening?.();
+  stopListening = enabled ? listen() : null;
 });
@@ -0,0 +1,187 @@
+import { classifySelection, getSentenceContext, getWordSpans, snapToWords, truncateToWords } from './segmentation.js';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TextSpan } from './segmentation.js';
+
+const spanOf = (text: string, part: string, fromIndex = 0): TextSpan => {
+  const start = text.indexOf(part, fromIndex);
+  assert.notEqual(start, -1, `"${part}" isn't in "${text}"`);
+  return { start, end: start + part.length };
+};
+
+const slice = (text: string, { start, end }: TextSpan) => text.slice(start, end);
+
+describe('getWordSpans', () => {
+  const cases = [
+    {
+      name: 'Japanese without spaces',
+      locale: 'ja',
+      text: '私は猫が好きです。',
+      words: ['私', 'は', '猫', 'が', '好き', 'です'],
+    },
+    { name: 'Chinese without spaces', locale: 'zh', text: '我喜欢猫。', words: ['我', '喜欢', '猫'] },
+    { name: 'Thai without spaces', locale: 'th', text: 'ฉันชอบแมว', words: ['ฉัน', 'ชอบ', 'แมว'] },
+    { name: 'Arabic', locale: 'ar', text: 'مرحبا بالعالم!', words: ['مرحبا', 'بالعالم'] },
+    { name: 'Hebrew', locale: 'he', text: 'שלום עולם.', words: ['שלום', 'עולם'] },
+    { name: 'English, leaving out punctuation', locale: 'en', text: 'Hello, world!', words: ['Hello', 'world'] },
+  ];
+
+  for (const { name, locale, text, words } of cases) {
+    it(name, () => {
+      const found = getWordSpans(text, locale).map(span => slice(text, span));
+      assert.deepEqual(found, words);
+    });
+  }
+});
+
+describe('getSentenceContext', () => {
+  const cases = [
+    {
+      name: 'Japanese',
+      locale: 'ja',
+      text: '今日は晴れです。明日は雨です。',
+      word: '明日',
+      sentence: '明日は雨です。',
+    },
+    {
+      name: 'Chinese',
+      locale: 'zh',
+      text: '我喜欢猫。你喜欢狗吗？他喜欢鱼。',
+      word: '狗',
+      sentence: '你喜欢狗吗？',
+    },
+    { name: 'Thai', locale: 'th', text: 'ฉันชอบแมว', word: 'แมว', sentence: 'ฉันชอบแมว' },
+    {
+      name: 'Arabic',
+      locale: 'ar',
+      text: 'مرحبا بالعالم. كيف حالك؟ أنا بخير.',
+      word: 'حالك',
+      sentence: 'كيف حالك؟',
+    },
+    { name: 'Hebrew', locale: 'he', text: 'שלום עולם. מה שלומך? אני בסדר.', word: 'שלומך', sentence: 'מה שלומך?' },
+    {
+      name: 'a title before a name',
+      locale: 'en',
+      text: 'I met Dr. Smith today. He was late.',
+      word: 'Smith',
+      sentence: 'I met Dr. Smith today.',
+    },
+    {
+      name: '"e.g." inside a sentence',
+      locale: 'en',
+      text: 'Bring fruit, e.g. apples. Then leave.',
+      word: 'apples',
+      sentence: 'Bring fruit, e.g. apples.',
+    },
+    {
+      name: 'initials',
+      locale: 'en',
+      text: 'Written by J. R. R. Tolkien in 1937. It sold well.',
+      word: 'Tolkien',
+      sentence: 'Written by J. R. R. Tolkien in 1937.',
+    },
+  ];
+
+  for (const { name, locale, text, word, sentence } of cases) {
+    it(`finds the sentence in ${name}`, () => {
+      assert.equal(getSentenceContext(text, spanOf(text, word), { locale, surrounding: 0 }), sentence);
+    });
+  }
+
+  it('takes the sentence of the occurrence the span points at, not the first one', () => {
+    const text = 'The bank was closed. We sat on the bank of the river.';
+    const secondBank = spanOf(text, 'bank', text.indexOf('bank') + 1);
+    assert.equal(getSentenceContext(text, secondBank, { surrounding: 0 }), 'We sat on the bank of the river.');
+  });
+
+  it('adds the surrounding sentences', () => {
+    const text = 'One. Two. Three. Four.';
+    assert.equal(getSentenceContext(text, spanOf(text, 'Three'), { surrounding: 1 }), 'Two. Three. Four.');
+  });
+
+  it('clips long context to the maximum length around the span', () => {
+    const text = `${'a '.repeat(100)}needle${' b'.repeat(100)}.`;
+    const context = getSentenceContext(text, spanOf(text, 'needle'), { maxLength: 20 });
+    assert.ok(context.length <= 20);
+    assert.ok(context.includes('needle'));
+  });
+});
+
+describe('snapToWords', () => {
+  const text = 'the cat saw the dog';
+  const cases = [
+    { name: 'widens a span that starts and ends inside words', span: { start: 1, end: 6 }, snapped: 'the cat' },
+    { name: 'drops spaces at the edges', span: { start: 3, end: 8 }, snapped: 'cat' },
+    { name: 'turns a caret inside a word into the word', span: { start: 5, end: 5 }, snapped: 'cat' },
+    { name: 'picks the first word for a caret between two', span: { start: 3, end: 3 }, snapped: 'the' },
+    { name: 'takes the word at the end of the text', span: { start: 19, end: 19 }, snapped: 'dog' },
+    { name: 'keeps a span that touches no word', span: { start: 3, end: 4 }, snapped: ' ' },
+  ];
+
+  for (const { name, span, snapped } of cases) {
+    it(name, () => {
+      assert.equal(slice(text, snapToWords(text, span)), snapped);
+    });
+  }
+
+  it('resolves a repeated word to the occurrence the span is in', () => {
+    assert.deepEqual(snapToWords(text, { start: 13, end: 13 }), { start: 12, end: 15 });
+  });
+
+  it('snaps to whole words in Japanese', () => {
+    const japanese = '私は猫が好きです';
+    assert.equal(slice(japanese, snapToWords(japanese, { start: 5, end: 5 }, 'ja')), '好き');
+  });
+
+  it('keeps a span of only punctuation', () => {
+    assert.deepEqual(snapToWords(' , ', { start: 0, end: 3 }), { start: 0, end: 3 });
+  });
+});
+
+describe('truncateToWords', () => {
+  const text = 'the cat saw the dog';
+  const cases = [
+    { name: 'keeps a span that fits', span: { start: 0, end: 19 }, maxLength: 50, truncated: text },
+    {
+      name: 'keeps a span exactly as long as the limit',
+      span: { start: 0, end: 7 },
+      maxLength: 7,
+      truncated: 'the cat',
+    },
+    {
+      name: 'cuts after the last whole word that fits',
+      span: { start: 0, end: 19 },
+      maxLength: 10,
+      truncated: 'the cat',
+    },
+    { name: 'counts from the start of the span', span: { start: 4, end: 19 }, maxLength: 8, truncated: 'cat saw' },
+  ];
+
+  for (const { name, span, maxLength, truncated } of cases) {
+    it(name, () => {
+      assert.equal(slice(text, truncateToWords(text, span, maxLength)), truncated);
+    });
+  }
+
+  it('cuts a single word longer than the limit as is', () => {
+    const word = 'supercalifragilistic';
+    assert.deepEqual(truncateToWords(word, { start: 0, end: word.length }, 5), { start: 0, end: 5 });
+  });
+});
+
+describe('classifySelection', () => {
+  const cases = [
+    { text: 'cat', locale: 'en', kind: 'word' },
+    { text: '猫', locale: 'ja', kind: 'word' },
+    { text: 'the black cat', locale: 'en', kind: 'phrase' },
+    { text: '私は猫が好きです', locale: 'ja', kind: 'phrase' },
+    { text: 'I like cats. They like me.', locale: 'en', kind: 'passage' },
+    { text: 'one two three four five six seven eight nine', locale: 'en', kind: 'passage' },
+  ];
+
+  for (const { text, locale, kind } of cases) {
+    it(`takes "${text}" as a ${kind}`, () => {
+      assert.equal(classifySelection(text, locale), kind);
+    });
+  }
+});
@@ -0,0 +1,204 @@
+// Word and sentence boundaries for selections, using Intl.Segmenter so scripts without spaces or with their own
+// punctuation (Japanese, Chinese, Thai) split correctly. Positions are offsets into the text of the selection's
+// block, taken from the DOM range rather than searched for, so repeated words resolve to the right occurrence.
+
+interface TextSpan {
+  start: number;
+  end: number;
+}
+
+type SelectionKind = 'word' | 'phrase' | 'passage';
+
+interface SentenceContextOptions {
+  locale?: string;
+  /** Sentences to include before and after the ones the span is in */
+  surrounding?: number;
+  maxLength?: number;
+}
+
+// More words than this, or more than one sentence, make a selection a passage
+const MAX_PHRASE_WORDS = 8;
+
+// Sentences are only looked for this far around the selection, blocks can hold a whole page of text
+const SEGMENT_WINDOW = 2000;
+
+// Abbreviations that are followed by a name or number rather than ending a sentence, e.g. "Dr. Smith"
+const NON_TERMINAL_ABBREVIATIONS = new Set([
+  'mr',
+  'mrs',
+  'ms',
+  'dr',
+  'prof',
+  'st',
+  'sr',
+  'jr',
+  'vs',
+  'no',
+  'nr',
+  'fig',
+  'vol',
+  'p',
+  'pp',
+  'ca',
+  'cf',
+  'approx',
+]);
+
+const BLOCK_SELECTOR = 'p, li, dd, dt, td, th, h1, h2, h3, h4, h5, h6, blockquote, figcaption, pre, div';
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+const getSegmenter = (locale: string | undefined, granularity: 'word' | 'sentence') => {
+  const key = `${locale ?? ''}:${granularity}`;
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    try {
+      segmenter = new Intl.Segmenter(locale, { granularity });
+    } catch {
+      // Malformed lang attributes fall back to the browser's locale
+      segmenter = new Intl.Segmenter(undefined, { granularity });
+    }
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+};
+
+const endsWithAbbreviation = (sentence: string) => {
+  const lastWord = sentence.trimEnd().match(/(?:^|\s)([\p{L}.]+)\.$/u)?.[1];
+  if (!lastWord) return false;
+  // Single letters are initials, like the "J." in "J. R. R. Tolkien"
+  return /^\p{Lu}$/u.test(lastWord) || NON_TERMINAL_ABBREVIATIONS.has(lastWord.toLowerCase());
+};
+
+const getSentences = (text: string, locale?: string): TextSpan[] => {
+  const sentences: TextSpan[] = [];
+  for (const { segment, index } of getSegmenter(locale, 'sentence').segment(text)) {
+    const previous = sentences.at(-1);
+    if (previous && endsWithAbbreviation(text.slice(previous.start, previous.end))) {
+      previous.end = index + segment.length;
+    } else {
+      sentences.push({ start: index, end: index + segment.length });
+    }
+  }
+  return sentences;
+};
+
+/**
+ * Spans of the words in a text, leaving out the spaces and punctuation between them.
+ */
+const getWordSpans = (text: string, locale?: string): TextSpan[] => {
+  const words: TextSpan[] = [];
+  for (const { segment, index, isWordLike } of getSegmenter(locale, 'word').segment(text)) {
+    if (isWordLike) words.push({ start: index, end: index + segment.length });
+  }
+  return words;
+};
+
+/**
+ * Widens a span to whole words, so a selection that starts or ends inside a word covers all of it, and drops
+ * spaces and punctuation at its edges. A collapsed span, like a caret, becomes the word it is in. Returns the
+ * span unchanged when it touches no word.
+ */
+const snapToWords = (text: string, span: TextSpan, locale?: string): TextSpan => {
+  let start = -1;
+  let end = -1;
+
+  for (const { segment, index, isWordLike } of getSegmenter(locale, 'word').segment(text)) {
+    const segmentEnd = index + segment.length;
+    if (index > span.end) break;
+
+    const touches =
+      span.start === span.end
+        ? index <= span.start && span.start <= segmentEnd
+        : index < span.end && segmentEnd > span.start;
+    if (isWordLike && touches) {
+      if (start === -1) start = index;
+      end = segmentEnd;
+      // A caret between two words picks the first one
+      if (span.start === span.end) break;
+    }
+  }
+
+  return start === -1 ? span : { start, end };
+};
+
+/**
+ * Shortens a span to at most `maxLength` characters, cutting after the last whole word that fits. A single word
+ * longer than that is cut as is.
+ */
+const truncateToWords = (text: string, span: TextSpan, maxLength: number, locale?: string): TextSpan => {
+  if (span.end - span.start <= maxLength) return span;
+
+  let end = span.start;
+  for (const { segment, index, isWordLike } of getSegmenter(locale, 'word').segment(
+    text.slice(span.start, span.start + maxLength + 1),
+  )) {
+    const segmentEnd = span.start + index + segment.length;
+    if (segmentEnd - span.start > maxLength) break;
+    if (isWordLike) end = segmentEnd;
+  }
+
+  return { start: span.start, end: end > span.start ? end : span.start + maxLength };
+};
+
+/**
+ * The sentences a span is in, with their neighbours. Clipped to `maxLength` around the span when longer.
+ */
+const getSentenceContext = (
+  text: string,
+  span: TextSpan,
+  { locale, surrounding = 1, maxLength = Infinity }: SentenceContextOptions = {},
+) => {
+  const offset = Math.max(0, span.start - SEGMENT_WINDOW);
+  const windowText = text.slice(offset, span.end + SEGMENT_WINDOW);
+  const sentences = getSentences(windowText, locale);
+
+  const first = sentences.findIndex(sentence => sentence.end > span.start - offset);
+  const last = sentences.findIndex(sentence => sentence.end >= span.end - offset);
+  if (first === -1 || last === -1) return text.slice(span.start, span.end);
+
+  const start = offset + sentences[Math.max(0, first - surrounding)].start;
+  const end = offset + sentences[Math.min(sentences.length - 1, last + surrounding)].end;
+  if (end - start <= maxLength) return text.slice(start, end).trim();
+
+  // Keep the span roughly centered in what fits
+  const spanLength = span.end - span.start;
+  const clippedStart = Math.max(
+    start,
+    Math.min(span.start - Math.floor((maxLength - spanLength) / 2), end - maxLength),
+  );
+  return text.slice(clippedStart, clippedStart + maxLength).trim();
+};
+
+/**
+ * Whether a selection is a single word, a phrase of a few words, or a passage of one or more sentences.
+ */
+const classifySelection = (text: string, locale?: string): SelectionKind => {
+  const words = [...getSegmenter(locale, 'word').segment(text)].filter(segment => segment.isWordLike).length;
+  if (words <= 1) return 'word';
+  if (words > MAX_PHRASE_WORDS || getSentences(text.trim(), locale).length > 1) return 'passage';
+  return 'phrase';
+};
+
+/**
+ * Text of the block a range is in and the range's offsets within it.
+ */
+const getRangeInBlock = (range: Range) => {
+  const container = range.commonAncestorContainer;
+  const element = container.nodeType === Node.ELEMENT_NODE ? (container as Element) : container.parentElement;
+  const block = element?.closest(BLOCK_SELECTOR) ?? element ?? document.body;
+
+  const before = document.createRange();
+  before.setStart(block, 0);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().length;
+
+  return {
+    block,
+    text: block.textContent ?? '',
+    span: { start, end: start + range.toString().length },
+  };
+};
+
+export { classifySelection, getRangeInBlock, getSentenceContext, getWordSpans, snapToWords, truncateToWords };
+export type { SelectionKind, SentenceContextOptions, TextSpan };
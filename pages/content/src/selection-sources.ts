@@ -0,0 +1,187 @@
+// Where selected text lives. The document's Selection covers the page and contenteditable editors, but not text
+// selected in open shadow roots or in text fields, which keep their own selection.
+import { getRangeInBlock } from '@src/segmentation';
+import { rangeReference } from '@src/tooltip/position';
+import type { TextSpan } from '@src/segmentation';
+import type { TooltipAnchor } from '@src/tooltip/store';
+
+type TextField = HTMLTextAreaElement | HTMLInputElement;
+
+// Chrome exposes the selection inside a shadow root only through this non-standard method
+type SelectableShadowRoot = ShadowRoot & { getSelection?: () => Selection | null };
+
+interface SelectionSource {
+  /** Text around the selection: the block it is in, or the field's value */
+  text: string;
+  span: TextSpan;
+  lang?: string;
+  /** Where to point the tooltip at */
+  anchor: TooltipAnchor;
+}
+
+const TEXT_INPUT_TYPES = ['text', 'search', 'url', 'email', 'tel'];
+
+// Styles that affect where text wraps and how big it is, copied to the mirror used to find a field's caret
+const MIRRORED_PROPERTIES = [
+  'direction',
+  'box-sizing',
+  'width',
+  'height',
+  'overflow-x',
+  'overflow-y',
+  'border-top-width',
+  'border-right-width',
+  'border-bottom-width',
+  'border-left-width',
+  'border-style',
+  'padding-top',
+  'padding-right',
+  'padding-bottom',
+  'padding-left',
+  'font-style',
+  'font-variant',
+  'font-weight',
+  'font-stretch',
+  'font-size',
+  'font-family',
+  'line-height',
+  'text-align',
+  'text-transform',
+  'text-indent',
+  'letter-spacing',
+  'word-spacing',
+  'tab-size',
+];
+
+const isTextField = (element: Element | null): element is TextField =>
+  element instanceof HTMLTextAreaElement ||
+  (element instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes(element.type));
+
+const isShadowRoot = (target: EventTarget): target is ShadowRoot => target instanceof ShadowRoot;
+
+// Focus inside a shadow root shows up as its host on the document
+const getDeepActiveElement = () => {
+  let element = document.activeElement;
+  while (element?.shadowRoot?.activeElement) {
+    element = element.shadowRoot.activeElement;
+  }
+  return element;
+};
+
+const getShadowRootsOf = (node: Node | null) => {
+  const roots: ShadowRoot[] = [];
+  let root = node?.getRootNode();
+  while (root && isShadowRoot(root)) {
+    roots.push(root);
+    root = root.host.getRootNode();
+  }
+  return roots;
+};
+
+/**
+ * Nearest declared language, which may differ from the page's for quotes and embedded content.
+ */
+const getNodeLang = (node: Node) =>
+  (node.nodeType === Node.ELEMENT_NODE ? (node as Element) : node.parentElement)
+    ?.closest('[lang]')
+    ?.getAttribute('lang') ||
+  document.documentElement.lang ||
+  undefined;
+
+/**
+ * Position of a text field's caret, found by laying the text out in a hidden copy of the field. It then moves along
+ * with the field and the field's own scrolling.
+ */
+const getTextFieldCaretAnchor = (field: TextField, position: number): TooltipAnchor => {
+  const style = getComputedStyle(field);
+  const mirror = document.createElement('div');
+  MIRRORED_PROPERTIES.forEach(property => mirror.style.setProperty(property, style.getPropertyValue(property)));
+  Object.assign(mirror.style, {
+    position: 'absolute',
+    top: '0',
+    left: '-9999px',
+    visibility: 'hidden',
+    whiteSpace: field instanceof HTMLTextAreaElement ? 'pre-wrap' : 'pre',
+    overflowWrap: 'break-word',
+  });
+
+  mirror.textContent = field.value.substring(0, position);
+  const marker = document.createElement('span');
+  // Gives the marker a height even at the end of the text
+  marker.textContent = field.value.substring(position) || '.';
+  mirror.appendChild(marker);
+  document.body.appendChild(mirror);
+
+  const rect = field.getBoundingClientRect();
+  const top = rect.top + field.clientTop + marker.offsetTop - field.scrollTop;
+  const left = rect.left + field.clientLeft + marker.offsetLeft - field.scrollLeft;
+  const lineHeight = parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.2;
+  mirror.remove();
+
+  const { scrollTop, scrollLeft } = field;
+  return {
+    getBoundingClientRect: () => {
+      const current = field.getBoundingClientRect();
+      const dx = current.left - rect.left - (field.scrollLeft - scrollLeft);
+      const dy = current.top - rect.top - (field.scrollTop - scrollTop);
+      return { top: top + dy, left: left + dx, bottom: top + dy + lineHeight, right: left + dx };
+    },
+    contextElement: field,
+  };
+};
+
+const fromTextField = (field: TextField): SelectionSource | null => {
+  const { selectionStart, selectionEnd, value } = field;
+  if (selectionStart === null || selectionEnd === null || selectionStart === selectionEnd) return null;
+
+  return {
+    text: value,
+    span: { start: selectionStart, end: selectionEnd },
+    lang: getNodeLang(field),
+    anchor: getTextFieldCaretAnchor(field, selectionStart),
+  };
+};
+
+/**
+ * Reads a DOM range, like a selection in the page or in a contenteditable editor, or the word under the pointer.
+ */
+const fromRange = (range: Range): SelectionSource => {
+  const { text, span } = getRangeInBlock(range);
+
+  return {
+    text,
+    span,
+    lang: getNodeLang(range.startContainer),
+    // A copy, the selection's own range changes with the next selection
+    anchor: rangeReference(range.cloneRange()),
+  };
+};
+
+const getSelectedRange = (selection: Selection | null | undefined) =>
+  selection && selection.rangeCount > 0 && !selection.isCollapsed ? selection.getRangeAt(0) : null;
+
+/**
+ * The current selection in this frame, looking into focused text fields and the shadow roots along the event's
+ * path first. Returns null when nothing is selected.
+ */
+const readSelection = (event?: Event): SelectionSource | null => {
+  const active = getDeepActiveElement();
+  if (isTextField(active)) {
+    const source = fromTextField(active);
+    if (source) return source;
+  }
+
+  const shadowRoots: SelectableShadowRoot[] = event
+    ? event.composedPath().filter(isShadowRoot)
+    : getShadowRootsOf(active);
+  for (const root of shadowRoots) {
+    const range = getSelectedRange(root.getSelection?.());
+    if (range) return fromRange(range);
+  }
+
+  const range = getSelectedRange(window.getSelection());
+  return range ? fromRange(range) : null;
+};
+
+export { fromRange, getNodeLang, readSelection };
+export type { SelectionSource };
@@ -0,0 +1,37 @@
+// Whether the extension runs in this page, followed as the switch, the site lists and pauses change. Frames go by
+// the top page, the one the lists and the toolbar badge are about.
+import { getSiteAccess } from '@extension/shared';
+import { siteAccessStorage } from '@extension/storage';
+
+// Cross-origin frames can't read the top page's location, only its origin
+const getTopUrl = () => {
+  const origins = window.location.ancestorOrigins;
+  return origins?.length ? origins[origins.length - 1] : window.location.href;
+};
+
+/**
+ * Calls `listener` with whether the extension runs here, right away and then whenever that changes.
+ */
+const watchSiteAccess = (listener: (enabled: boolean) => void) => {
+  let current: boolean | null = null;
+
+  const update = async () => {
+    const [{ enabled }, access] = await Promise.all([
+      chrome.storage.local.get({ enabled: true }),
+      siteAccessStorage.get(),
+    ]);
+    const next = getSiteAccess(getTopUrl(), access, Boolean(enabled)).enabled;
+    if (next !== current) {
+      current = next;
+      listener(next);
+    }
+  };
+
+  update();
+  siteAccessStorage.subscribe(update);
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes.enabled) update();
+  });
+};
+
+export { watchSiteAccess };
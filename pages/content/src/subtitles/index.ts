@@ -0,0 +1,217 @@
+// Dual subtitles for HTML5 videos: the cues of the subtitle track a video shows are drawn by the extension instead,
+// with their translation underneath. The next few cues are translated ahead through the background, which keeps
+// them in the translation cache, so playback never waits on the provider.
+import { sendMessage } from '@extension/messaging';
+import { subtitleSettingsStorage } from '@extension/storage';
+import { getNodeLang } from '@src/selection-sources';
+import { createOverlay } from '@src/subtitles/overlay';
+import type { SubtitleOverlay, SubtitleWord } from '@src/subtitles/overlay';
+
+const SUBTITLE_KINDS = ['subtitles', 'captions'];
+// Cues translated before they come up
+const PREFETCH_AHEAD = 3;
+
+// Translations by language and cue text; dropped when the target language changes
+const translations = new Map<string, Promise<string | null>>();
+const translated = new Map<string, string>();
+
+const getCueText = (cue: TextTrackCue) =>
+  cue instanceof VTTCue ? (cue.getCueAsHTML().textContent ?? '').replace(/\s+/g, ' ').trim() : '';
+
+const translate = (text: string, lang?: string) => {
+  const key = `${lang ?? ''}:${text}`;
+  let translation = translations.get(key);
+  if (!translation) {
+    translation = sendMessage('translate', { text, url: window.location.href, pageLang: lang, save: false }).then(
+      response => {
+        // Tried again when the cue comes up next, like after a usage limit is raised
+        if (!response.success) {
+          translations.delete(key);
+          return null;
+        }
+        translated.set(key, response.data.translation);
+        return response.data.translation;
+      },
+    );
+    translations.set(key, translation);
+  }
+  return translation;
+};
+
+const getTranslation = (text: string, lang?: string) => translated.get(`${lang ?? ''}:${text}`);
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes.targetLang) {
+    translations.clear();
+    translated.clear();
+  }
+});
+
+/**
+ * Shows the translated subtitles of one video while it has a subtitle track showing. Returns a function that
+ * gives the track back to the browser.
+ */
+const watchVideo = (video: HTMLVideoElement, onWord: (word: SubtitleWord) => void) => {
+  let track: TextTrack | null = null;
+  // Only there while a track is, pages are full of videos without subtitles
+  let overlay: SubtitleOverlay | null = null;
+
+  // The browser draws the subtitles itself when the video is fullscreen, nothing can be shown over it then
+  const isDrawnByBrowser = () => document.fullscreenElement === video;
+
+  const getLang = () => track?.language || getNodeLang(video);
+
+  const render = async () => {
+    const lang = getLang();
+    const texts = track && !isDrawnByBrowser() ? Array.from(track.activeCues ?? [], getCueText).filter(Boolean) : [];
+    overlay?.render(
+      texts.map(text => ({ text, translation: getTranslation(text, lang) })),
+      lang,
+    );
+    if (texts.every(text => getTranslation(text, lang) !== undefined)) return;
+
+    await Promise.all(texts.map(text => translate(text, lang)));
+    // Still the same cues, and no later render has shown the translations already
+    const current = track ? Array.from(track.activeCues ?? [], getCueText).filter(Boolean) : [];
+    if (current.join('\n') === texts.join('\n')) {
+      overlay?.render(
+        texts.map(text => ({ text, translation: getTranslation(text, lang) })),
+        lang,
+      );
+    }
+  };
+
+  // Cues are in start time order
+  const prefetch = () => {
+    const cues = track?.cues;
+    if (!cues) return;
+    const lang = getLang();
+    let ahead = 0;
+    for (let i = 0; i < cues.length && ahead < PREFETCH_AHEAD; i++) {
+      const text = cues[i].startTime > video.currentTime ? getCueText(cues[i]) : '';
+      if (!text) continue;
+      translate(text, lang);
+      ahead++;
+    }
+  };
+
+  const onCueChange = () => {
+    render();
+    prefetch();
+  };
+
+  // Hidden tracks still load their cues and report which are active, without the browser drawing them
+  const applyMode = () => {
+    if (track) track.mode = isDrawnByBrowser() ? 'showing' : 'hidden';
+  };
+
+  const setTrack = (next: TextTrack | null) => {
+    if (next === track) {
+      applyMode();
+      return;
+    }
+    if (track) {
+      track.removeEventListener('cuechange', onCueChange);
+      if (track.mode === 'hidden') track.mode = 'disabled';
+    }
+    track = next;
+    track?.addEventListener('cuechange', onCueChange);
+    if (track && !overlay) {
+      overlay = createOverlay(video, onWord);
+    } else if (!track) {
+      overlay?.destroy();
+      overlay = null;
+    }
+    applyMode();
+    onCueChange();
+  };
+
+  // The track picked in the player's menu, or the one taken over before that is still on
+  const updateTrack = () => {
+    const tracks = Array.from(video.textTracks).filter(({ kind }) => SUBTITLE_KINDS.includes(kind));
+    const showing = tracks.find(candidate => candidate.mode === 'showing' && candidate !== track);
+    setTrack(showing ?? (track && track.mode !== 'disabled' && tracks.includes(track) ? track : null));
+  };
+
+  const onFullscreenChange = () => {
+    applyMode();
+    render();
+  };
+
+  video.textTracks.addEventListener('change', updateTrack);
+  video.textTracks.addEventListener('addtrack', updateTrack);
+  video.textTracks.addEventListener('removetrack', updateTrack);
+  video.addEventListener('seeked', prefetch);
+  document.addEventListener('fullscreenchange', onFullscreenChange);
+  updateTrack();
+
+  return () => {
+    video.textTracks.removeEventListener('change', updateTrack);
+    video.textTracks.removeEventListener('addtrack', updateTrack);
+    video.textTracks.removeEventListener('removetrack', updateTrack);
+    video.removeEventListener('seeked', prefetch);
+    document.removeEventListener('fullscreenchange', onFullscreenChange);
+    track?.removeEventListener('cuechange', onCueChange);
+    if (track?.mode === 'hidden') track.mode = 'showing';
+    overlay?.destroy();
+  };
+};
+
+/**
+ * Shows translated subtitles on the page's videos while the setting is on, including videos added later. Clicked
+ * words go to `onWord`. Returns a function that stops it and gives the videos their own subtitles back.
+ */
+const start = (onWord: (word: SubtitleWord) => void) => {
+  const watched = new Map<HTMLVideoElement, () => void>();
+  let enabled = false;
+  let stopped = false;
+
+  const sync = () => {
+    const videos = enabled ? Array.from(document.querySelectorAll('video')) : [];
+    watched.forEach((stop, video) => {
+      if (!videos.includes(video)) {
+        stop();
+        watched.delete(video);
+      }
+    });
+    videos.forEach(video => {
+      if (!watched.has(video)) watched.set(video, watchVideo(video, onWord));
+    });
+  };
+
+  // Only mutations that add or remove a video are worth a look at the whole page
+  const hasVideo = (node: Node) =>
+    node instanceof HTMLVideoElement || (node instanceof Element && node.querySelector('video') !== null);
+  const observer = new MutationObserver(records => {
+    const nodes = records.flatMap(({ addedNodes, removedNodes }) => [
+      ...Array.from(addedNodes),
+      ...Array.from(removedNodes),
+    ]);
+    if (nodes.some(hasVideo)) sync();
+  });
+
+  const update = async () => {
+    const settings = await subtitleSettingsStorage.get();
+    if (stopped) return;
+    enabled = settings.enabled;
+    if (enabled) {
+      observer.observe(document.documentElement, { childList: true, subtree: true });
+    } else {
+      observer.disconnect();
+    }
+    sync();
+  };
+
+  update();
+  const unsubscribe = subtitleSettingsStorage.subscribe(update);
+
+  return () => {
+    unsubscribe();
+    observer.disconnect();
+    stopped = true;
+    enabled = false;
+    sync();
+  };
+};
+
+export const dualSubtitles = { start };
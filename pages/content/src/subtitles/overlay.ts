@@ -0,0 +1,119 @@
+// Draws a video's subtitles over its bottom edge, each cue with its translation underneath. The words of the cue
+// can be clicked, the rest of the overlay lets the pointer through to the player.
+import { getWordSpans } from '@src/segmentation';
+import inlineCss from '@src/subtitles/subtitles.css?inline';
+import { autoUpdate, getClippingRect, getOverlayContainer } from '@src/tooltip/position';
+import type { Reference } from '@src/tooltip/position';
+
+interface SubtitleLine {
+  text: string;
+  /** Left out while the translation is on its way */
+  translation?: string;
+}
+
+interface SubtitleWord {
+  word: string;
+  /** The whole cue */
+  context: string;
+  lang?: string;
+  anchor: Reference;
+}
+
+interface SubtitleOverlay {
+  render: (lines: SubtitleLine[], lang?: string) => void;
+  destroy: () => void;
+}
+
+// A custom element, so page styles for divs don't apply to it
+const HOST_TAG = 'highlight-translator-subtitles';
+// Subtitles scale with the video, within what stays readable
+const FONT_SIZE_RATIO = 0.045;
+const MIN_FONT_SIZE = 14;
+const MAX_FONT_SIZE = 32;
+
+const createOriginal = (text: string, lang: string | undefined, onWord: (word: SubtitleWord) => void) => {
+  const original = document.createElement('div');
+  original.className = 'original';
+
+  let offset = 0;
+  for (const { start, end } of getWordSpans(text, lang)) {
+    original.append(text.slice(offset, start));
+    const word = document.createElement('span');
+    word.className = 'word';
+    word.textContent = text.slice(start, end);
+    word.addEventListener('click', () =>
+      onWord({
+        word: word.textContent ?? '',
+        context: text,
+        lang,
+        anchor: { getBoundingClientRect: () => word.getBoundingClientRect(), contextElement: word },
+      }),
+    );
+    original.append(word);
+    offset = end;
+  }
+  original.append(text.slice(offset));
+  return original;
+};
+
+/**
+ * Creates the overlay for a video, kept over it as the page scrolls, the video resizes or goes fullscreen.
+ */
+const createOverlay = (video: HTMLVideoElement, onWord: (word: SubtitleWord) => void): SubtitleOverlay => {
+  const host = document.createElement(HOST_TAG);
+  const shadowRoot = host.attachShadow({ mode: 'open' });
+  const style = document.createElement('style');
+  style.textContent = inlineCss;
+  const cues = document.createElement('div');
+  cues.className = 'cues';
+  shadowRoot.append(style, cues);
+
+  const update = () => {
+    const container = getOverlayContainer();
+    if (host.parentElement !== container) container.append(host);
+
+    const rect = video.getBoundingClientRect();
+    const clip = getClippingRect(video);
+    const visible =
+      rect.bottom > clip.top && rect.top < clip.bottom && rect.right > clip.left && rect.left < clip.right;
+
+    host.style.left = `${rect.left}px`;
+    host.style.top = `${rect.top}px`;
+    host.style.width = `${rect.width}px`;
+    host.style.height = `${rect.height}px`;
+    host.style.visibility = visible ? '' : 'hidden';
+    cues.style.fontSize = `${Math.min(Math.max(rect.height * FONT_SIZE_RATIO, MIN_FONT_SIZE), MAX_FONT_SIZE)}px`;
+  };
+
+  update();
+  const stopUpdating = autoUpdate(video, update);
+  document.addEventListener('fullscreenchange', update);
+
+  const render = (lines: SubtitleLine[], lang?: string) => {
+    cues.replaceChildren(
+      ...lines.map(({ text, translation }) => {
+        const cue = document.createElement('div');
+        cue.className = 'cue';
+        cue.append(createOriginal(text, lang, onWord));
+        if (translation) {
+          const translated = document.createElement('div');
+          translated.className = 'translation';
+          translated.textContent = translation;
+          cue.append(translated);
+        }
+        return cue;
+      }),
+    );
+  };
+
+  const destroy = () => {
+    stopUpdating();
+    document.removeEventListener('fullscreenchange', update);
+    host.remove();
+  };
+
+  return { render, destroy };
+};
+
+export { createOverlay };
+export type { SubtitleLine, SubtitleOverlay, SubtitleWord };
@@ -0,0 +1,326 @@
+import { MessageErrorCodeEnum, sendMessage } from '@extension/messaging';
+import { useStorage, withSuspense } from '@extension/shared';
+import { tooltipSettingsStorage } from '@extension/storage';
+import { trackReference } from '@src/tooltip/position';
+import { tooltipStore } from '@src/tooltip/store';
+import { useEffect, useLayoutEffect, useRef, useState, useSyncExternalStore } from 'react';
+import type { TranslateResult } from '@extension/messaging';
+import type { TooltipSettingsStateType } from '@extension/storage';
+import type { TooltipState } from '@src/tooltip/store';
+
+type DictionaryEntry = NonNullable<TranslateResult['dictionary']>[number];
+
+const AUTO_HIDE_MS = 7000;
+const MAX_DICTIONARY_ENTRIES = 2;
+const MAX_SENSES = 3;
+// Controls keyboard focus moves between, in order
+const FOCUSABLE_SELECTOR = 'button:not(:disabled)';
+
+// Headword line with part of speech and pronunciation, then the first few senses with an example each
+const DictionaryEntryView = ({ entry }: { entry: DictionaryEntry }) => {
+  const details = [entry.partOfSpeech, entry.pronunciation].filter(Boolean).join(' · ');
+
+  return (
+    <div className="entry">
+      <div className="headword">
+        {entry.headword}
+        {details && <span className="details"> {details}</span>}
+      </div>
+      {entry.lemma && <div className="lemma">→ {entry.lemma}</div>}
+      <ol className="senses">
+        {entry.senses.slice(0, MAX_SENSES).map((sense, i) => (
+          <li key={i}>
+            {sense.gloss}
+            {sense.examples?.[0] && <div className="example">{sense.examples[0]}</div>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+// What screen readers announce as the tooltip changes
+const getAnnouncement = ({ status, request, result, error }: TooltipState) => {
+  if (status === 'loading') return `Translating ${request.word}`;
+  if (status === 'error') return `Translation failed: ${error}`;
+  return result?.translation ? `${request.word}: ${result.translation}` : '';
+};
+
+const TooltipCard = ({ state, settings }: { state: TooltipState; settings: TooltipSettingsStateType }) => {
+  const { status, anchor, request, result, error, pinned } = state;
+  const ref = useRef<HTMLDivElement>(null);
+  const arrowRef = useRef<HTMLDivElement>(null);
+  const [hovered, setHovered] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const [flashcardId, setFlashcardId] = useState<string>();
+  const [saved, setSaved] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [contextTranslation, setContextTranslation] = useState<string>();
+  const [contextStatus, setContextStatus] = useState<'hidden' | 'loading' | 'shown'>('hidden');
+
+  // Lookups are saved as they happen; context-aware mode brings the sentence translation along
+  useEffect(() => {
+    setFlashcardId(result?.flashcardId);
+    setSaved(Boolean(result?.flashcardId));
+    setContextTranslation(result?.contextTranslation);
+    setContextStatus(result?.contextTranslation ? 'shown' : 'hidden');
+  }, [result]);
+
+  // Placed before the first paint and again whenever the page scrolls or the tooltip grows, like when the context
+  // translation comes in
+  useLayoutEffect(() => {
+    if (!ref.current) return;
+    return trackReference(anchor, ref.current, arrowRef.current);
+  }, [anchor]);
+
+  // Stays open while it is being read or used from the keyboard
+  useEffect(() => {
+    if (pinned || hovered || focused || status === 'loading') return;
+    const timer = setTimeout(tooltipStore.close, AUTO_HIDE_MS);
+    return () => clearTimeout(timer);
+  }, [pinned, hovered, focused, status, notice, contextStatus]);
+
+  // Escape dismisses the tooltip from anywhere on the page, and only goes no further when the tooltip had focus
+  useEffect(() => {
+    const handleKeyDown = (ev: KeyboardEvent) => {
+      if (ev.key !== 'Escape') return;
+      if (ref.current && ev.composedPath().includes(ref.current)) {
+        ev.preventDefault();
+        ev.stopPropagation();
+      }
+      tooltipStore.close();
+    };
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+
+  // Tab goes round the tooltip's controls rather than off into the page, which is far away in the tab order
+  useEffect(() => {
+    const card = ref.current;
+    if (!card) return;
+
+    const handleKeyDown = (ev: KeyboardEvent) => {
+      if (ev.key !== 'Tab') return;
+      const focusable = Array.from(card.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+      const root = card.getRootNode() as ShadowRoot | Document;
+      const next = focusable.indexOf(root.activeElement as HTMLElement) + (ev.shiftKey ? -1 : 1);
+      if (focusable.length === 0 || (next >= 0 && next < focusable.length)) return;
+
+      ev.preventDefault();
+      focusable.at(ev.shiftKey ? -1 : 0)?.focus();
+    };
+    card.addEventListener('keydown', handleKeyDown);
+    return () => card.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleSave = async () => {
+    if (!result) return;
+    setBusy(true);
+
+    try {
+      if (saved && flashcardId) {
+        const response = await sendMessage('flashcards.delete', { id: flashcardId });
+        if (!response.success) {
+          setNotice(response.error);
+          return;
+        }
+        setSaved(false);
+        setFlashcardId(undefined);
+        setNotice('Removed from your flashcards');
+        return;
+      }
+
+      const response = await sendMessage('flashcards.save', {
+        original: request.word,
+        translation: result.translation,
+        translationLanguage: result.targetLang ?? '',
+        originalLanguage: result.sourceLang,
+        url: request.url,
+        context: request.context,
+      });
+      if (!response.success) {
+        setNotice(
+          response.code === MessageErrorCodeEnum.Unauthenticated
+            ? 'Sign in from the extension popup to save words'
+            : response.error,
+        );
+        return;
+      }
+      setSaved(true);
+      setFlashcardId(response.data?.id);
+      setNotice(response.data ? 'Saved to your flashcards' : 'Saved, it syncs once you are back online');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(result.translation);
+      setNotice('Copied');
+    } catch {
+      setNotice('Could not copy the translation');
+    }
+  };
+
+  const handlePronounce = () => {
+    const utterance = new SpeechSynthesisUtterance(request.word);
+    const lang = result?.sourceLang && result.sourceLang !== 'auto' ? result.sourceLang : request.pageLang;
+    if (lang) utterance.lang = lang;
+    speechSynthesis.cancel();
+    speechSynthesis.speak(utterance);
+  };
+
+  // The sentence is translated on request only, and without turning it into a flashcard
+  const handleContext = async () => {
+    if (contextStatus !== 'hidden') {
+      setContextStatus('hidden');
+      return;
+    }
+    if (contextTranslation) {
+      setContextStatus('shown');
+      return;
+    }
+
+    setContextStatus('loading');
+    const response = await sendMessage('translate', {
+      text: request.context,
+      url: request.url,
+      pageLang: request.pageLang,
+      targetLang: request.targetLang,
+      save: false,
+    });
+    if (!response.success) {
+      setNotice(response.error);
+      setContextStatus('hidden');
+      return;
+    }
+    setContextTranslation(response.data.translation);
+    setContextStatus('shown');
+  };
+
+  const hasContext = request.context.trim() !== request.word.trim();
+  // A flashcard queued while offline has no id yet, so it can't be removed from here
+  const canToggleSave = !saved || Boolean(flashcardId);
+
+  const className = [
+    'tooltip',
+    pinned && 'tooltip--pinned',
+    request.kind === 'passage' && 'tooltip--passage',
+    settings.highContrast && 'tooltip--high-contrast',
+    settings.reducedMotion && 'tooltip--reduced-motion',
+  ];
+
+  return (
+    <div
+      ref={ref}
+      role="dialog"
+      aria-label={`Translation of ${request.word}`}
+      aria-busy={status === 'loading'}
+      tabIndex={-1}
+      className={className.filter(Boolean).join(' ')}
+      style={{ fontSize: settings.fontSize }}
+      onFocus={() => setFocused(true)}
+      onBlur={ev => setFocused(ref.current?.contains(ev.relatedTarget as Node) ?? false)}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}>
+      <div ref={arrowRef} className="arrow" />
+
+      {status === 'loading' && (
+        <div className="status">
+          <span className="spinner" /> Translating…
+        </div>
+      )}
+
+      {status === 'error' && <div className="error">{error}</div>}
+
+      {status === 'ready' && result && (
+        <>
+          {/* Dictionary entries replace the bare translation, their first sense is the translation */}
+          {request.kind === 'passage' ? (
+            <div className="passage">{result.translation}</div>
+          ) : result.dictionary?.length ? (
+            result.dictionary
+              .slice(0, MAX_DICTIONARY_ENTRIES)
+              .map((entry, i) => <DictionaryEntryView key={i} entry={entry} />)
+          ) : (
+            <div className="word">{result.translation}</div>
+          )}
+
+          {contextStatus === 'loading' && (
+            <div className="context">
+              <span className="spinner" /> Translating the sentence…
+            </div>
+          )}
+          {contextStatus === 'shown' && contextTranslation && <div className="context">{contextTranslation}</div>}
+
+          <div className="actions">
+            <button
+              className={saved ? 'active' : ''}
+              onClick={handleSave}
+              disabled={busy || !canToggleSave}
+              title={saved ? 'Remove from flashcards' : 'Save as flashcard'}
+              aria-label={saved ? 'Remove from flashcards' : 'Save as flashcard'}
+              aria-pressed={saved}>
+              {saved ? '★' : '☆'}
+            </button>
+            <button onClick={handleCopy} title="Copy translation" aria-label="Copy translation">
+              ⧉
+            </button>
+            <button onClick={handlePronounce} title="Pronounce" aria-label="Pronounce">
+              🔊
+            </button>
+            {hasContext && (
+              <button
+                className={contextStatus === 'hidden' ? '' : 'active'}
+                onClick={handleContext}
+                disabled={contextStatus === 'loading'}
+                title="Show context translation"
+                aria-label="Show context translation"
+                aria-expanded={contextStatus === 'shown'}>
+                ¶
+              </button>
+            )}
+            <button
+              className={pinned ? 'active' : ''}
+              onClick={() => tooltipStore.setPinned(!pinned)}
+              title={pinned ? 'Unpin' : 'Pin'}
+              aria-label={pinned ? 'Unpin' : 'Pin'}
+              aria-pressed={pinned}>
+              📌
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* Always there, so screen readers pick up notices as they are set */}
+      <div className="notice" role="status">
+        {notice}
+      </div>
+
+      <button className="close" onClick={tooltipStore.close} title="Close" aria-label="Close">
+        ×
+      </button>
+    </div>
+  );
+};
+
+const Tooltip = () => {
+  const state = useSyncExternalStore(tooltipStore.subscribe, tooltipStore.getSnapshot);
+  const settings = useStorage(tooltipSettingsStorage);
+
+  return (
+    <>
+      {/* Outside the card so it exists before the result comes in, live regions only announce changes */}
+      <div className="visually-hidden" role="status" aria-live="polite" aria-atomic="true">
+        {state ? getAnnouncement(state) : ''}
+      </div>
+      {/* Keyed per selection so saved state and notices don't carry over to the next word */}
+      {state && <TooltipCard key={state.id} state={state} settings={settings} />}
+    </>
+  );
+};
+
+export default withSuspense(Tooltip, <></>);
@@ -0,0 +1,61 @@
+import { initAppWithShadow } from '@extension/shared';
+import { getOverlayContainer } from '@src/tooltip/position';
+import { tooltipStore } from '@src/tooltip/store';
+import Tooltip from '@src/tooltip/Tooltip';
+import inlineCss from '@src/tooltip/tooltip.css?inline';
+
+const TOOLTIP_HOST_ID = 'highlight-translator-tooltip';
+
+// Where keyboard focus was before it moved into the tooltip
+let returnFocus: HTMLElement | null = null;
+
+// Mounted on the first selection rather than on every page load, and moved into a fullscreen player so it shows
+// over it, like for a word clicked in the player's subtitles
+const mount = () => {
+  if (!document.getElementById(TOOLTIP_HOST_ID)) {
+    initAppWithShadow({ id: TOOLTIP_HOST_ID, app: <Tooltip />, inlineCss });
+  }
+  const host = document.getElementById(TOOLTIP_HOST_ID);
+  const container = getOverlayContainer();
+  if (host && host.parentElement !== container) container.append(host);
+};
+
+/**
+ * Whether an event happened inside the tooltip, whose shadow root retargets it to the host element.
+ */
+const isTooltipEvent = (event: Event) => {
+  const host = document.getElementById(TOOLTIP_HOST_ID);
+  return Boolean(host && event.composedPath().includes(host));
+};
+
+const open: typeof tooltipStore.open = (request, anchor) => {
+  mount();
+  return tooltipStore.open(request, anchor);
+};
+
+/**
+ * Moves keyboard focus to the tooltip's first action, or to the tooltip itself while it is loading. Focus goes
+ * back where it was when the tooltip closes. Returns false when no tooltip is open.
+ */
+const focus = () => {
+  const host = document.getElementById(TOOLTIP_HOST_ID);
+  const card = host?.shadowRoot?.querySelector<HTMLElement>('.tooltip');
+  if (!host || !card) return false;
+
+  if (document.activeElement !== host && document.activeElement instanceof HTMLElement) {
+    returnFocus = document.activeElement;
+  }
+  (card.querySelector<HTMLElement>('.actions button:not(:disabled)') ?? card).focus();
+  return true;
+};
+
+// Runs before React removes the tooltip, while focus is still inside it
+tooltipStore.subscribe(() => {
+  if (tooltipStore.getSnapshot()) return;
+  if (returnFocus && document.activeElement === document.getElementById(TOOLTIP_HOST_ID)) {
+    returnFocus.focus();
+  }
+  returnFocus = null;
+});
+
+export const tooltip = { ...tooltipStore, open, focus, isTooltipEvent };
@@ -0,0 +1,246 @@
+// Places the tooltip next to what it is about: above it when there is room, below otherwise, shifted to stay in
+// view and with the arrow pointing at the reference. Positions are worked out in viewport coordinates from the
+// reference's current bounding rect, so references in scrolled containers, fixed headers or transformed elements
+// are followed as they move.
+
+type Placement = 'top' | 'bottom';
+
+interface Rect {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+/**
+ * What the tooltip points at: a DOM range or element, or anything else that can report where it is.
+ */
+interface Reference {
+  getBoundingClientRect: () => Rect;
+  /** Element the reference is in, for its writing direction and the containers that clip it */
+  contextElement?: Element | null;
+}
+
+interface PositionOptions {
+  /** Preferred side, used unless only the other one has room */
+  placement?: Placement;
+  /** Gap between the reference and the tooltip */
+  offset?: number;
+  /** Closest the tooltip gets to the edges of the viewport */
+  padding?: number;
+  /** Closest the arrow gets to the tooltip's corners */
+  arrowPadding?: number;
+  /** Aligns the tooltip's right edge with the reference instead of its left edge */
+  rtl?: boolean;
+}
+
+interface Position {
+  x: number;
+  y: number;
+  placement: Placement;
+  /** Arrow offset from the tooltip's left edge */
+  arrowX: number;
+}
+
+const CLIPPING_OVERFLOW = ['auto', 'scroll', 'hidden', 'clip', 'overlay'];
+
+const intersect = (a: Rect, b: Rect): Rect => ({
+  top: Math.max(a.top, b.top),
+  left: Math.max(a.left, b.left),
+  bottom: Math.min(a.bottom, b.bottom),
+  right: Math.min(a.right, b.right),
+});
+
+const flip = (placement: Placement): Placement => (placement === 'top' ? 'bottom' : 'top');
+
+// When the tooltip is larger than the range allows, the start edge wins
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+
+const isEmptyRect = ({ top, left, bottom, right }: Rect) => top === 0 && left === 0 && bottom === 0 && right === 0;
+
+// Without the scrollbars, which the tooltip shouldn't cover
+const getViewportRect = (): Rect => ({
+  top: 0,
+  left: 0,
+  bottom: document.documentElement.clientHeight || window.innerHeight,
+  right: document.documentElement.clientWidth || window.innerWidth,
+});
+
+// Also steps out of shadow roots, to the host the content is rendered in
+const getParentElement = (element: Element) => {
+  if (element.parentElement) return element.parentElement;
+  const root = element.getRootNode();
+  return root instanceof ShadowRoot ? root.host : null;
+};
+
+/**
+ * Part of the viewport an element's content can be seen in, inside the scrolling and clipping containers it is in.
+ * A fixed-position ancestor stops the search, the page's containers don't clip it.
+ */
+const getClippingRect = (element: Element | null | undefined) => {
+  let clip = getViewportRect();
+  for (let current = element; current && current !== document.documentElement; current = getParentElement(current)) {
+    const style = getComputedStyle(current);
+    if (
+      current !== element &&
+      (CLIPPING_OVERFLOW.includes(style.overflowX) || CLIPPING_OVERFLOW.includes(style.overflowY))
+    ) {
+      const rect = current.getBoundingClientRect();
+      const top = rect.top + current.clientTop;
+      const left = rect.left + current.clientLeft;
+      clip = intersect(clip, { top, left, bottom: top + current.clientHeight, right: left + current.clientWidth });
+    }
+    if (style.position === 'fixed') break;
+  }
+  return clip;
+};
+
+/**
+ * Where to put a tooltip of the given size, in viewport coordinates. It flips to the other side of the reference
+ * when the preferred one lacks room and the other has more, and shifts along the reference to stay in view.
+ */
+const computePosition = (
+  reference: Rect,
+  size: { width: number; height: number },
+  { placement = 'top', offset = 8, padding = 8, arrowPadding = 12, rtl = false }: PositionOptions = {},
+): Position => {
+  const viewport = getViewportRect();
+  const spaceAbove = reference.top - viewport.top - offset - padding;
+  const spaceBelow = viewport.bottom - reference.bottom - offset - padding;
+
+  const preferredSpace = placement === 'top' ? spaceAbove : spaceBelow;
+  const otherSpace = placement === 'top' ? spaceBelow : spaceAbove;
+  const side = preferredSpace < size.height && otherSpace > preferredSpace ? flip(placement) : placement;
+
+  // Too tall for either side, it then overlaps the reference rather than leave the viewport
+  const y = clamp(
+    side === 'top' ? reference.top - offset - size.height : reference.bottom + offset,
+    viewport.top + padding,
+    viewport.bottom - padding - size.height,
+  );
+  const x = clamp(
+    rtl ? reference.right - size.width : reference.left,
+    viewport.left + padding,
+    viewport.right - padding - size.width,
+  );
+
+  // Points at the middle of the reference, as far as the tooltip's corners allow
+  const center = (reference.left + reference.right) / 2;
+  const arrowX = clamp(center - x, arrowPadding, size.width - arrowPadding);
+
+  return { x, y, placement: side, arrowX };
+};
+
+/**
+ * Element to put fixed-position content like the tooltip in so it can be seen: the fullscreen element while a
+ * player is fullscreen, the body otherwise. A fullscreen video shows none of its children, it gets the body too.
+ */
+const getOverlayContainer = () => {
+  const fullscreen = document.fullscreenElement;
+  return fullscreen && !(fullscreen instanceof HTMLVideoElement) ? fullscreen : document.body;
+};
+
+/**
+ * Keeps a tooltip positioned at its reference, calling `update` when anything scrolls, the window resizes or the
+ * tooltip changes size. Returns a function that stops it.
+ */
+const autoUpdate = (floating: Element, update: () => void) => {
+  let frame: number | null = null;
+  const schedule = () => {
+    if (frame === null) {
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        update();
+      });
+    }
+  };
+
+  // Scroll events don't bubble, but they do pass the window while capturing, whichever container scrolled
+  window.addEventListener('scroll', schedule, { capture: true, passive: true });
+  window.addEventListener('resize', schedule);
+  window.visualViewport?.addEventListener('resize', schedule);
+  const resizeObserver = new ResizeObserver(schedule);
+  resizeObserver.observe(floating);
+
+  return () => {
+    window.removeEventListener('scroll', schedule, { capture: true });
+    window.removeEventListener('resize', schedule);
+    window.visualViewport?.removeEventListener('resize', schedule);
+    resizeObserver.disconnect();
+    if (frame !== null) cancelAnimationFrame(frame);
+  };
+};
+
+/**
+ * Follows a reference with the tooltip and its arrow, hiding the tooltip while the reference is scrolled out of
+ * view. Returns a function that stops following.
+ */
+const trackReference = (reference: Reference, floating: HTMLElement, arrow: HTMLElement | null) => {
+  const element = reference.contextElement;
+  const rtl = element ? getComputedStyle(element).direction === 'rtl' : document.dir === 'rtl';
+  let lastRect: Rect | null = null;
+
+  const update = () => {
+    // A range whose text was removed reports an empty rect, the tooltip then stays where it was
+    const current = reference.getBoundingClientRect();
+    const rect = isEmptyRect(current) && lastRect ? lastRect : current;
+    lastRect = rect;
+
+    const clip = getClippingRect(element);
+    const visible =
+      rect.bottom >= clip.top && rect.top <= clip.bottom && rect.right >= clip.left && rect.left <= clip.right;
+
+    // The tooltip's containing block may be moved or scaled by a transform on the page, measured from where it is
+    const box = floating.getBoundingClientRect();
+    const scale = floating.offsetWidth ? box.width / floating.offsetWidth : 1;
+    const originX = box.left - (parseFloat(floating.style.left) || 0) * scale;
+    const originY = box.top - (parseFloat(floating.style.top) || 0) * scale;
+
+    const { x, y, placement, arrowX } = computePosition(rect, { width: box.width, height: box.height }, { rtl });
+    floating.style.left = `${(x - originX) / scale}px`;
+    floating.style.top = `${(y - originY) / scale}px`;
+    floating.style.visibility = visible ? '' : 'hidden';
+    floating.dataset.placement = placement;
+    if (arrow) arrow.style.left = `${arrowX / scale}px`;
+  };
+
+  update();
+  return autoUpdate(floating, update);
+};
+
+/**
+ * A fixed point on the page, like where the pointer was, that moves with the page as it scrolls.
+ */
+const pointReference = (x: number, y: number): Reference => {
+  const scrollX = window.scrollX;
+  const scrollY = window.scrollY;
+  return {
+    getBoundingClientRect: () => {
+      const left = x - (window.scrollX - scrollX);
+      const top = y - (window.scrollY - scrollY);
+      return { top, left, bottom: top, right: left };
+    },
+  };
+};
+
+/**
+ * A DOM range, followed through the containers it scrolls in.
+ */
+const rangeReference = (range: Range): Reference => {
+  const container = range.commonAncestorContainer;
+  return {
+    getBoundingClientRect: () => range.getBoundingClientRect(),
+    contextElement: container instanceof Element ? container : container.parentElement,
+  };
+};
+
+export {
+  autoUpdate,
+  computePosition,
+  getClippingRect,
+  getOverlayContainer,
+  pointReference,
+  rangeReference,
+  trackReference,
+};
+export type { Placement, Position, PositionOptions, Rect, Reference };
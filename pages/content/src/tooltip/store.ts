@@ -0,0 +1,75 @@
+// View state of the tooltip, shared between the selection handling in the content script and the React tooltip
+import type { TranslateResult } from '@extension/messaging';
+import type { SelectionKind } from '@src/segmentation';
+import type { Reference } from '@src/tooltip/position';
+
+/** What the tooltip points at, followed as it moves */
+type TooltipAnchor = Reference;
+
+interface TooltipRequest {
+  word: string;
+  /** Passages are shown in a scrollable panel rather than the compact tooltip */
+  kind: SelectionKind;
+  context: string;
+  url: string;
+  pageLang?: string;
+  /** Set when the target language was picked for this request rather than taken from settings */
+  targetLang?: string;
+}
+
+interface TooltipState {
+  /** Increases with every selection so late responses for an earlier one are dropped */
+  id: number;
+  status: 'loading' | 'ready' | 'error';
+  anchor: TooltipAnchor;
+  request: TooltipRequest;
+  result?: TranslateResult;
+  error?: string;
+  pinned: boolean;
+}
+
+const listeners = new Set<() => void>();
+let state: TooltipState | null = null;
+let nextId = 1;
+
+const setState = (next: TooltipState | null) => {
+  state = next;
+  listeners.forEach(listener => listener());
+};
+
+const update = (id: number, patch: Partial<TooltipState>) => {
+  if (state?.id === id) setState({ ...state, ...patch });
+};
+
+/**
+ * Opens the tooltip in its loading state for a new selection and returns the id to resolve it with.
+ */
+const open = (request: TooltipRequest, anchor: TooltipAnchor) => {
+  const id = nextId++;
+  setState({ id, status: 'loading', anchor, request, pinned: false });
+  return id;
+};
+
+const resolve = (id: number, result: TranslateResult) => update(id, { status: 'ready', result });
+
+const fail = (id: number, error: string) => update(id, { status: 'error', error });
+
+const setPinned = (pinned: boolean) => {
+  if (state) setState({ ...state, pinned });
+};
+
+const close = () => {
+  if (state) setState(null);
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getSnapshot = () => state;
+
+export const tooltipStore = { open, resolve, fail, setPinned, close, subscribe, getSnapshot };
+export type { TooltipAnchor, TooltipRequest, TooltipState };
@@ -0,0 +1,222 @@
+// Underlines words from the user's flashcards on the page, with the saved translation as their title. Text is
+// scanned in idle time a slice at a time, and content added later is picked up from DOM mutations the same way.
+import { sendMessage } from '@extension/messaging';
+import { findSiteSetting } from '@extension/shared';
+import { vocabularyHighlightStorage } from '@extension/storage';
+import { createMatcher } from '@src/vocabulary/matcher';
+import type { VocabularyEntry } from '@extension/messaging';
+import type { VocabularyMatcher } from '@src/vocabulary/matcher';
+
+// A custom element, so page styles for spans or marks don't apply to it
+const MARK_TAG = 'highlight-translator-word';
+const MARK_STYLE = 'text-decoration: underline dotted 1px; text-underline-offset: 2px; cursor: help;';
+// Elements whose text isn't prose, or is being edited
+const SKIPPED_TAGS = new Set([
+  'SCRIPT',
+  'STYLE',
+  'NOSCRIPT',
+  'TEMPLATE',
+  'TEXTAREA',
+  'INPUT',
+  'SELECT',
+  'OPTION',
+  'CODE',
+  'PRE',
+  'SVG',
+  'MATH',
+  MARK_TAG.toUpperCase(),
+]);
+// Longest a slice of scanning may take when the browser is never idle
+const BUSY_SLICE_MS = 8;
+// Beyond this many words a page is more underline than text
+const MAX_MARKS = 2000;
+
+let matcher: VocabularyMatcher | null = null;
+// Whether the content script runs the highlighter, which it only does where the extension is on
+let running = false;
+let enabledHere = false;
+let active = false;
+let markCount = 0;
+let pending: Node[] = [];
+let scan: { walker: TreeWalker; node: Node | null } | null = null;
+let idleCallback: number | null = null;
+
+const isSkipped = (element: Element) =>
+  SKIPPED_TAGS.has(element.tagName.toUpperCase()) || (element instanceof HTMLElement && element.isContentEditable);
+
+const isInSkippedElement = (node: Node) => {
+  for (let element = node instanceof Element ? node : node.parentElement; element; element = element.parentElement) {
+    if (isSkipped(element)) return true;
+  }
+  return false;
+};
+
+const createWalker = (root: Node) =>
+  document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+    acceptNode: node =>
+      node.nodeType === Node.TEXT_NODE
+        ? NodeFilter.FILTER_ACCEPT
+        : isSkipped(node as Element)
+          ? NodeFilter.FILTER_REJECT
+          : NodeFilter.FILTER_SKIP,
+  });
+
+const createMark = (text: Text, entry: VocabularyEntry) => {
+  const mark = document.createElement(MARK_TAG);
+  mark.setAttribute('style', MARK_STYLE);
+  mark.title = entry.translation;
+  text.replaceWith(mark);
+  mark.appendChild(text);
+};
+
+const highlightText = (text: Text) => {
+  const value = text.data;
+  if (!matcher || !value.trim()) return;
+
+  const matches = matcher.findMatches(value).slice(0, MAX_MARKS - markCount);
+  // From the end, so the offsets of earlier matches stay valid in what is left of the node
+  for (let i = matches.length - 1; i >= 0; i--) {
+    const { start, end, entry } = matches[i];
+    text.splitText(end);
+    createMark(text.splitText(start), entry);
+  }
+  markCount += matches.length;
+};
+
+// Saved words in the page's language, and those whose language is unknown
+const forPageLanguage = (entries: VocabularyEntry[]) => {
+  const pageLang = document.documentElement.lang.split('-')[0].toLowerCase();
+  if (!pageLang) return entries;
+  return entries.filter(({ originalLanguage }) => {
+    const lang = originalLanguage?.split('-')[0].toLowerCase();
+    return !lang || lang === 'auto' || lang === pageLang;
+  });
+};
+
+const observer = new MutationObserver(records => {
+  for (const record of records) {
+    if (record.type === 'characterData') {
+      if (record.target.parentElement?.tagName.toUpperCase() !== MARK_TAG.toUpperCase()) pending.push(record.target);
+    } else {
+      record.addedNodes.forEach(node => pending.push(node));
+    }
+  }
+  schedule();
+});
+
+const work = (deadline: IdleDeadline) => {
+  idleCallback = null;
+  const until = performance.now() + (deadline.didTimeout ? BUSY_SLICE_MS : deadline.timeRemaining());
+
+  while (active && markCount < MAX_MARKS && performance.now() < until) {
+    if (!scan) {
+      const root = pending.shift();
+      if (!root) break;
+      if (!root.isConnected || isInSkippedElement(root)) continue;
+      if (root.nodeType === Node.TEXT_NODE) {
+        highlightText(root as Text);
+        continue;
+      }
+      const walker = createWalker(root);
+      scan = { walker, node: walker.nextNode() };
+    }
+
+    const { walker, node } = scan;
+    if (!node) {
+      scan = null;
+      continue;
+    }
+    // Moved on before the node is split, so the walker never lands on the parts
+    scan.node = walker.nextNode();
+    highlightText(node as Text);
+  }
+
+  // The only mutations since the last delivery are the marks just added
+  observer.takeRecords();
+  if (active && markCount < MAX_MARKS && (scan || pending.length)) schedule();
+};
+
+const schedule = () => {
+  if (idleCallback === null) {
+    idleCallback = requestIdleCallback(work, { timeout: 1000 });
+  }
+};
+
+const removeMarks = () => {
+  const parents = new Set<Node>();
+  document.querySelectorAll(MARK_TAG).forEach(mark => {
+    if (mark.parentNode) parents.add(mark.parentNode);
+    mark.replaceWith(...Array.from(mark.childNodes));
+  });
+  // Joins the text nodes the marks were split from
+  parents.forEach(parent => parent.normalize());
+  markCount = 0;
+};
+
+const clear = () => {
+  active = false;
+  observer.disconnect();
+  if (idleCallback !== null) cancelIdleCallback(idleCallback);
+  idleCallback = null;
+  pending = [];
+  scan = null;
+  removeMarks();
+};
+
+// Loads the vocabulary and scans the whole page, replacing any marks from before
+const scanPage = async () => {
+  const response = await sendMessage('vocabulary.get');
+  clear();
+  // Switched off while the vocabulary was on its way
+  if (!response.success || !enabledHere) return;
+
+  matcher = createMatcher(forPageLanguage(response.data));
+  if (matcher.size === 0) return;
+
+  active = true;
+  observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+  pending = [document.body];
+  schedule();
+};
+
+const isEnabledHere = async () => {
+  const settings = await vocabularyHighlightStorage.get();
+  return running && (findSiteSetting(window.location.href, settings.sites) ?? settings.enabled);
+};
+
+const update = async () => {
+  enabledHere = await isEnabledHere();
+  if (enabledHere) {
+    await scanPage();
+  } else {
+    clear();
+  }
+};
+
+/**
+ * Highlights saved words while highlighting is on for the site, following changes to the setting. Returns a function
+ * that stops it and removes the marks, for when the extension is switched off on the site.
+ */
+const start = () => {
+  if (!document.body) return () => {};
+  running = true;
+  update();
+  const unsubscribe = vocabularyHighlightStorage.subscribe(update);
+
+  return () => {
+    unsubscribe();
+    running = false;
+    enabledHere = false;
+    clear();
+  };
+};
+
+/**
+ * Rescans the page with a word that was just saved, unless it is highlighted already.
+ */
+const refresh = async (word: string) => {
+  const known = matcher?.findMatches(word).some(({ start, end }) => start === 0 && end === word.length);
+  if (enabledHere && !known) await scanPage();
+};
+
+export const vocabularyHighlighter = { start, refresh };
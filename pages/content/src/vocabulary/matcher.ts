@@ -0,0 +1,124 @@
+// Aho-Corasick automaton over the saved words, so each text node is read once however large the vocabulary is.
+// Matching is case-insensitive one UTF-16 code unit at a time, which keeps offsets into the text exact.
+import type { VocabularyEntry } from '@extension/messaging';
+
+interface VocabularyMatch {
+  start: number;
+  end: number;
+  entry: VocabularyEntry;
+}
+
+interface AutomatonNode {
+  next: Map<string, AutomatonNode>;
+  fail: AutomatonNode | null;
+  /** Terms ending here, including those ending in the nodes its failure links lead to */
+  terms: { length: number; entry: VocabularyEntry }[];
+}
+
+// Scripts written without spaces, where a word may start or end next to any other letter
+const SPACELESS_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}]/u;
+const WORD_CHARACTER = /[\p{L}\p{N}\p{M}]/u;
+const WHITESPACE = /\s/;
+
+const createNode = (): AutomatonNode => ({ next: new Map(), fail: null, terms: [] });
+
+const fold = (character: string) => {
+  if (WHITESPACE.test(character)) return ' ';
+  const lower = character.toLowerCase();
+  // A few characters lowercase to more than one, those are compared as they are
+  return lower.length === 1 ? lower : character;
+};
+
+const isBoundary = (text: string, position: number) => {
+  const before = text[position - 1];
+  const after = text[position];
+  if (!before || !after) return true;
+  return (
+    !WORD_CHARACTER.test(before) ||
+    !WORD_CHARACTER.test(after) ||
+    SPACELESS_SCRIPT.test(before) ||
+    SPACELESS_SCRIPT.test(after)
+  );
+};
+
+/**
+ * Builds a matcher for the originals of the given entries. Single letters are left out unless they are a word on
+ * their own in a script without spaces, they would match all over a page.
+ */
+const createMatcher = (entries: VocabularyEntry[]) => {
+  const root = createNode();
+  let size = 0;
+
+  for (const entry of entries) {
+    const term = entry.original.trim().replace(/\s+/g, ' ');
+    if (term.length < 2 && !SPACELESS_SCRIPT.test(term)) continue;
+
+    let node = root;
+    for (const character of term.split('').map(fold)) {
+      let child = node.next.get(character);
+      if (!child) {
+        child = createNode();
+        node.next.set(character, child);
+      }
+      node = child;
+    }
+    // The first of duplicate originals, the most recent flashcard, wins
+    if (node.terms.length === 0) {
+      node.terms.push({ length: term.length, entry });
+      size++;
+    }
+  }
+
+  // Failure links, breadth first so a node's failure target is complete before it is used
+  const queue: AutomatonNode[] = [];
+  root.next.forEach(child => {
+    child.fail = root;
+    queue.push(child);
+  });
+  for (let node = queue.shift(); node; node = queue.shift()) {
+    for (const [character, child] of node.next) {
+      let fail = node.fail;
+      while (fail && !fail.next.has(character)) fail = fail.fail;
+      child.fail = fail?.next.get(character) ?? root;
+      child.terms = [...child.terms, ...child.fail.terms];
+      queue.push(child);
+    }
+  }
+
+  /**
+   * Saved words in the text that start and end on word boundaries. Overlapping matches resolve to the leftmost,
+   * then the longest.
+   */
+  const findMatches = (text: string): VocabularyMatch[] => {
+    const found: VocabularyMatch[] = [];
+    let node = root;
+
+    for (let index = 0; index < text.length; index++) {
+      const character = fold(text[index]);
+      while (node !== root && !node.next.has(character)) node = node.fail ?? root;
+      node = node.next.get(character) ?? root;
+
+      for (const { length, entry } of node.terms) {
+        const start = index + 1 - length;
+        if (isBoundary(text, start) && isBoundary(text, index + 1)) {
+          found.push({ start, end: index + 1, entry });
+        }
+      }
+    }
+
+    found.sort((a, b) => a.start - b.start || b.end - a.end);
+    let lastEnd = 0;
+    return found.filter(match => {
+      if (match.start < lastEnd) return false;
+      lastEnd = match.end;
+      return true;
+    });
+  };
+
+  return { size, findMatches };
+};
+
+type VocabularyMatcher = ReturnType<typeof createMatcher>;
+
+export { createMatcher };
+export type { VocabularyMatch, VocabularyMatcher };
@@ -0,0 +1,174 @@
+import { dictionaryStore, parseStarDict, parseWiktionary } from '@extension/dictionary';
+import { useEffect, useState } from 'react';
+import type { DictionaryInfo, ParsedDictionary } from '@extension/dictionary';
+
+const inputStyle = {
+  padding: '6px 8px',
+  border: '1px solid #ced4da',
+  borderRadius: '4px',
+  fontSize: '13px',
+};
+
+const findFile = (files: File[], ...extensions: string[]) =>
+  files.find(file => extensions.some(extension => file.name.toLowerCase().endsWith(extension)));
+
+// StarDict comes as .ifo + .idx + .dict, possibly compressed; anything else is taken for a Wiktionary extract
+const parseFiles = async (files: File[], sourceLang: string, targetLang: string): Promise<ParsedDictionary> => {
+  const ifo = findFile(files, '.ifo');
+  if (ifo) {
+    const idx = findFile(files, '.idx', '.idx.gz');
+    const dict = findFile(files, '.dict', '.dict.dz');
+    if (!idx || !dict) {
+      throw new Error('A StarDict dictionary needs its .ifo, .idx and .dict files, select all three.');
+    }
+    const parsed = await parseStarDict({ ifo, idx, dict });
+    return { ...parsed, metadata: { ...parsed.metadata, sourceLang, targetLang } };
+  }
+
+  const parsed = await parseWiktionary(files[0].stream(), targetLang || undefined);
+  return sourceLang ? { ...parsed, metadata: { ...parsed.metadata, sourceLang } } : parsed;
+};
+
+const Dictionaries = () => {
+  const [dictionaries, setDictionaries] = useState<DictionaryInfo[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [name, setName] = useState('');
+  const [sourceLang, setSourceLang] = useState('');
+  const [targetLang, setTargetLang] = useState('');
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const loadDictionaries = async () => {
+    setDictionaries(await dictionaryStore.list());
+  };
+
+  useEffect(() => {
+    loadDictionaries();
+  }, []);
+
+  const isStarDict = files.some(file => file.name.toLowerCase().endsWith('.ifo'));
+
+  const handleImport = async () => {
+    if (files.length === 0) return;
+    if (isStarDict && (!sourceLang || !targetLang)) {
+      alert('StarDict files do not say which languages they cover. Please fill in both languages.');
+      return;
+    }
+
+    setProgress(0);
+    try {
+      const parsed = await parseFiles(files, sourceLang.trim(), targetLang.trim());
+      await dictionaryStore.import(parsed, name.trim(), setProgress);
+      setFiles([]);
+      setName('');
+      await loadDictionaries();
+    } catch (error) {
+      console.error('Dictionary import error:', error);
+      alert('Could not import the dictionary: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleRemove = async (dictionary: DictionaryInfo) => {
+    if (!confirm(`Remove the dictionary "${dictionary.name}"?`)) return;
+    await dictionaryStore.remove(dictionary.id);
+    await loadDictionaries();
+  };
+
+  return (
+    <section style={{ padding: '0 20px 40px' }}>
+      <div
+        style={{
+          maxWidth: '1200px',
+          margin: '0 auto',
+          backgroundColor: 'white',
+          border: '1px solid #e9ecef',
+          borderRadius: '8px',
+          padding: '20px',
+        }}>
+        <h2 style={{ margin: '0 0 4px 0', fontSize: '18px' }}>Offline dictionaries</h2>
+        <p style={{ margin: '0 0 16px 0', color: '#6c757d', fontSize: '13px' }}>
+          Single words are looked up here first. Dictionary results work offline and don&apos;t count towards your
+          character usage. Import a StarDict dictionary (.ifo, .idx and .dict files) or a Wiktionary extract from
+          kaikki.org (.json or .jsonl).
+        </p>
+
+        {dictionaries.length > 0 && (
+          <ul style={{ listStyle: 'none', padding: 0, margin: '0 0 16px 0' }}>
+            {dictionaries.map(dictionary => (
+              <li
+                key={dictionary.id}
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  padding: '8px 0',
+                  borderBottom: '1px solid #e9ecef',
+                  fontSize: '14px',
+                }}>
+                <span>
+                  <strong>{dictionary.name}</strong>{' '}
+                  <span style={{ color: '#6c757d' }}>
+                    {(dictionary.sourceLang ?? '?').toUpperCase()} → {(dictionary.targetLang ?? '?').toUpperCase()},{' '}
+                    {dictionary.entryCount.toLocaleString()} entries
+                  </span>
+                </span>
+                <button
+                  onClick={() => handleRemove(dictionary)}
+                  style={{
+                    padding: '4px 10px',
+                    backgroundColor: '#dc3545',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontSize: '12px',
+                  }}>
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', alignItems: 'center' }}>
+          <input
+            type="file"
+            multiple
+            accept=".ifo,.idx,.dict,.dz,.gz,.json,.jsonl"
+            onChange={e => setFiles(Array.from(e.target.files ?? []))}
+            style={{ fontSize: '13px' }}
+          />
+          <input placeholder="Name" value={name} onChange={e => setName(e.target.value)} style={inputStyle} />
+          <input
+            placeholder={isStarDict ? 'Word language, e.g. es' : 'Word language (optional)'}
+            value={sourceLang}
+            onChange={e => setSourceLang(e.target.value)}
+            style={{ ...inputStyle, width: '170px' }}
+          />
+          <input
+            placeholder={isStarDict ? 'Definition language, e.g. en' : 'Definition language (en)'}
+            value={targetLang}
+            onChange={e => setTargetLang(e.target.value)}
+            style={{ ...inputStyle, width: '190px' }}
+          />
+          <button
+            onClick={handleImport}
+            disabled={files.length === 0 || progress !== null}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: files.length === 0 || progress !== null ? '#e9ecef' : '#6f42c1',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: files.length === 0 || progress !== null ? 'not-allowed' : 'pointer',
+            }}>
+            {progress === null ? 'Import dictionary' : `Importing… ${progress.toLocaleString()} entries`}
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default Dictionaries;
@@ -1,14 +1,10 @@
-import { useState, useEffect } from 'react';
-
-type TranslationItem = {
-  id?: string;
-  original: string;
-  translation: string;
-  date: string;
-  url?: string;
-  original_language?: string;
-  translation_language?: string;
-};
+import { MessageErrorCodeEnum, onBroadcast, sendMessage } from '@extension/messaging';
+import { findLanguage, getLanguageName } from '@extension/shared';
+import Dictionaries from '@src/Dictionaries';
+import { useState, useEffect, useRef } from 'react';
+import type { Flashcard } from '@extension/messaging';
+
+type TranslationItem = Flashcard;
 
 type SiteGroup = {
   domain: string;
@@ -17,6 +13,102 @@ type SiteGroup = {
   visible: boolean;
 };
 
+// The most flashcards.list returns at once
+const PAGE_SIZE = 500;
+// Changes come in bursts, like a word saved from several frames, which are loaded once when they settle
+const RELOAD_DELAY_MS = 300;
+
+// Label over a side of a card, naming its language when it was known at saving time
+const getSideLabel = (label: string, lang?: string) =>
+  lang && lang !== 'auto' ? `${label} · ${getLanguageName(lang)}` : label;
+
+// Attributes so the browser picks fonts and writing direction for the text's language
+const getLangProps = (lang?: string) =>
+  lang && lang !== 'auto' ? { lang, dir: findLanguage(lang)?.dir ?? 'auto' } : { dir: 'auto' };
+
+// Extract domain from URL
+const getDomain = (url: string): string => {
+  try {
+    if (!url || url.trim() === '') {
+      return 'Unknown Site';
+    }
+
+    let processedUrl = url;
+    if (!url.startsWith('http://') && !url.startsWith('https://') && !url.startsWith('file://')) {
+      processedUrl = 'https://' + url;
+    }
+
+    const urlObj = new URL(processedUrl);
+    return urlObj.hostname.replace(/^www\./, '');
+  } catch (error) {
+    console.error('Error parsing URL:', url, error);
+    if (url && url.includes('chrome-extension://')) {
+      return 'Extension Pages';
+    }
+    if (url) {
+      const domainMatch = url.match(/(?:https?:\/\/)?(?:www\.)?([^/:]+)/);
+      if (domainMatch && domainMatch[1]) {
+        return domainMatch[1];
+      }
+    }
+    return 'Unknown Site';
+  }
+};
+
+const groupTranslationsBySite = (translations: TranslationItem[]): SiteGroup[] => {
+  const groups: { [domain: string]: SiteGroup } = {};
+
+  translations.forEach(translation => {
+    const domain = translation.url ? getDomain(translation.url) : 'Unknown Site';
+
+    let siteUrl = '#';
+    if (translation.url && translation.url.trim() !== '') {
+      if (translation.url.startsWith('http://') || translation.url.startsWith('https://')) {
+        siteUrl = translation.url;
+      } else if (!translation.url.includes('chrome-extension://')) {
+        siteUrl = `https://${translation.url}`;
+      }
+    }
+
+    if (!groups[domain]) {
+      groups[domain] = {
+        domain,
+        url: siteUrl,
+        translations: [],
+        visible: true,
+      };
+    }
+
+    groups[domain].translations.push(translation);
+  });
+
+  return Object.values(groups).sort((a, b) => {
+    const latestA = Math.max(...a.translations.map(t => new Date(t.date).getTime()));
+    const latestB = Math.max(...b.translations.map(t => new Date(t.date).getTime()));
+    return latestB - latestA;
+  });
+};
+
+const isToday = (date: string) => new Date(date).toDateString() === new Date().toDateString();
+
+// Every flashcard of the signed-in user, page by page
+const fetchFlashcards = async (): Promise<{ cards: TranslationItem[] } | { error: string }> => {
+  const cards: TranslationItem[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const response = await sendMessage('flashcards.list', { limit: PAGE_SIZE, offset });
+    if (!response.success) {
+      return {
+        error:
+          response.code === MessageErrorCodeEnum.Unauthenticated
+            ? 'Sign in from the extension popup to see your flashcards.'
+            : response.error,
+      };
+    }
+    cards.push(...response.data.items);
+    if (response.data.items.length < PAGE_SIZE) return { cards };
+  }
+};
+
 const Flashcards = () => {
   const [siteGroups, setSiteGroups] = useState<SiteGroup[]>([]);
   const [loading, setLoading] = useState(true);
@@ -26,118 +118,94 @@ const Flashcards = () => {
   const [reviewCards, setReviewCards] = useState<TranslationItem[]>([]);
   const [reviewSite, setReviewSite] = useState<string>('');
   const [isReversed, setIsReversed] = useState(false);
-  const [dailyWords, setDailyWords] = useState<TranslationItem[]>([]);
+  const [notice, setNotice] = useState('');
+  // Bumped to load the flashcards again, e.g. after a change the background refused
+  const [reloads, setReloads] = useState(0);
 
-  const loadDailyWords = () => {
-    const today = new Date().toISOString().split('T')[0];
+  // Every save of an import is broadcast; the cards are loaded once when it is done instead
+  const importing = useRef(false);
 
-    chrome.storage.local.get({ translations: [] }, res => {
-      const translations = res.translations as TranslationItem[];
+  const reload = () => setReloads(count => count + 1);
 
-      const todayTranslations = translations.filter(translation => {
-        const translationDate = new Date(translation.date).toISOString().split('T')[0];
-        return translationDate === today;
-      });
-
-      const formattedDailyWords = todayTranslations.map((translation, index) => ({
-        original: translation.original,
-        translation: translation.translation,
-        date: new Date().toISOString(),
-        url: 'daily-words',
-        id: `daily-${index + 1}`,
-      }));
+  // e.g. "Seen 5 times on 3 sites"; nothing for words looked up once
+  const getEncounterSummary = (card: TranslationItem): string | null => {
+    const count = card.encounter_count ?? 1;
+    if (count < 2) return null;
 
-      setDailyWords(formattedDailyWords);
-    });
+    const sites = new Set((card.urls ?? []).map(getDomain)).size;
+    const times = `Seen ${count} times`;
+    if (sites < 2) return times;
+    return `${times} on ${sites} sites`;
   };
 
-  // Extract domain from URL
-  const getDomain = (url: string): string => {
-    try {
-      if (!url || url.trim() === '') {
-        return 'Unknown Site';
-      }
-
-      let processedUrl = url;
-      if (!url.startsWith('http://') && !url.startsWith('https://') && !url.startsWith('file://')) {
-        processedUrl = 'https://' + url;
-      }
-
-      const urlObj = new URL(processedUrl);
-      return urlObj.hostname.replace(/^www\./, '');
-    } catch (error) {
-      console.error('Error parsing URL:', url, error);
-      if (url && url.includes('chrome-extension://')) {
-        return 'Extension Pages';
-      }
-      if (url) {
-        const domainMatch = url.match(/(?:https?:\/\/)?(?:www\.)?([^/:]+)/);
-        if (domainMatch && domainMatch[1]) {
-          return domainMatch[1];
-        }
-      }
-      return 'Unknown Site';
-    }
-  };
-
-  // Load translations from Chrome storage on mount
+  // Loaded again whenever a flashcard changes anywhere, like a word saved on a page while this tab is open
   useEffect(() => {
-    const groupTranslationsBySite = (translations: TranslationItem[]): SiteGroup[] => {
-      const groups: { [domain: string]: SiteGroup } = {};
-
-      translations.forEach((translation, index) => {
-        const translationWithId = { ...translation, id: translation.id || `translation-${index}` };
-        const domain = translation.url ? getDomain(translation.url) : 'Unknown Site';
-
-        let siteUrl = '#';
-        if (translation.url && translation.url.trim() !== '') {
-          if (translation.url.startsWith('http://') || translation.url.startsWith('https://')) {
-            siteUrl = translation.url;
-          } else if (!translation.url.includes('chrome-extension://')) {
-            siteUrl = `https://${translation.url}`;
-          }
-        }
-
-        if (!groups[domain]) {
-          groups[domain] = {
-            domain,
-            url: siteUrl,
-            translations: [],
-            visible: true,
-          };
-        }
+    // Numbers the loads, so one that finishes after a later one doesn't replace its newer cards
+    let latest = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = async () => {
+      const request = ++latest;
+      const result = await fetchFlashcards();
+      if (request !== latest) return;
+      setLoading(false);
+      if ('error' in result) {
+        setNotice(result.error);
+        setSiteGroups([]);
+        return;
+      }
 
-        groups[domain].translations.push(translationWithId);
-      });
+      setNotice('');
+      // Words looked up today, also shown together at the top
+      const dailyWords = result.cards.filter(card => isToday(card.last_seen ?? card.date));
+      const groups = groupTranslationsBySite(result.cards);
+      const next = dailyWords.length
+        ? [{ domain: '📅 Daily Words', url: '#', translations: dailyWords, visible: true }, ...groups]
+        : groups;
+      // Sites folded away stay folded
+      setSiteGroups(current =>
+        next.map(group => ({
+          ...group,
+          visible: current.find(({ domain }) => domain === group.domain)?.visible ?? true,
+        })),
+      );
+    };
 
-      return Object.values(groups).sort((a, b) => {
-        const latestA = Math.max(...a.translations.map(t => new Date(t.date).getTime()));
-        const latestB = Math.max(...b.translations.map(t => new Date(t.date).getTime()));
-        return latestB - latestA;
-      });
+    const scheduleLoad = () => {
+      if (importing.current) return;
+      clearTimeout(timer);
+      timer = setTimeout(load, RELOAD_DELAY_MS);
     };
 
-    chrome.storage.local.get({ translations: [] }, res => {
-      const translations = res.translations as TranslationItem[];
-      const groups = groupTranslationsBySite(translations);
-
-      loadDailyWords();
-
-      if (dailyWords.length > 0) {
-        const dailyGroup: SiteGroup = {
-          domain: '📅 Daily Words',
-          url: '#',
-          translations: dailyWords,
-          visible: true,
-        };
-        setSiteGroups([dailyGroup, ...groups]);
-      } else {
-        setSiteGroups(groups);
-      }
+    load();
+    const unsubscribe = onBroadcast('flashcardsUpdated', scheduleLoad);
+    return () => {
+      latest++;
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [reloads]);
+
+  // Removes cards from the page right away; a failed delete brings them back
+  const deleteCards = async (ids: string[]) => {
+    setSiteGroups(groups =>
+      groups
+        .map(group => ({
+          ...group,
+          translations: group.translations.filter(card => !card.id || !ids.includes(card.id)),
+        }))
+        .filter(group => group.translations.length > 0),
+    );
 
-      setLoading(false);
-    });
-  }, [dailyWords]);
+    const response =
+      ids.length === 1
+        ? await sendMessage('flashcards.delete', { id: ids[0] })
+        : await sendMessage('flashcards.bulkDelete', { ids });
+    if (!response.success) {
+      alert('Could not delete: ' + response.error);
+      reload();
+    }
+  };
 
   const handleDeleteCard = (siteIndex: number, cardId: string) => {
     if (siteGroups[siteIndex].domain === '📅 Daily Words') {
@@ -145,16 +213,7 @@ const Flashcards = () => {
       return;
     }
 
-    const newSiteGroups = [...siteGroups];
-    newSiteGroups[siteIndex].translations = newSiteGroups[siteIndex].translations.filter(card => card.id !== cardId);
-
-    const filteredGroups = newSiteGroups.filter(group => group.translations.length > 0);
-    setSiteGroups(filteredGroups);
-
-    const allTranslations = filteredGroups.flatMap(
-      group => group.translations.map(({ ...rest }) => rest), // Removed unused id parameter
-    );
-    chrome.storage.local.set({ translations: allTranslations });
+    deleteCards([cardId]);
   };
 
   const handleDeleteSite = (siteIndex: number) => {
@@ -166,19 +225,37 @@ const Flashcards = () => {
     const siteDomain = siteGroups[siteIndex].domain;
     if (!confirm(`Delete all flashcards from ${siteDomain}?`)) return;
 
-    const newSiteGroups = siteGroups.filter((_, index) => index !== siteIndex);
-    setSiteGroups(newSiteGroups);
+    deleteCards(siteGroups[siteIndex].translations.flatMap(card => (card.id ? [card.id] : [])));
+  };
 
-    const allTranslations = newSiteGroups.flatMap(
-      group => group.translations.map(({ ...rest }) => rest), // Removed unused id parameter
-    );
-    chrome.storage.local.set({ translations: allTranslations });
+  const handleEditCard = async (card: TranslationItem) => {
+    const translation = prompt(`Translation of “${card.original}”`, card.translation)?.trim();
+    if (!card.id || !translation || translation === card.translation) return;
+
+    const response = await sendMessage('flashcards.update', { id: card.id, translation });
+    if (!response.success) {
+      alert('Could not save the translation: ' + response.error);
+      return;
+    }
+    // A change queued while offline isn't broadcast until it goes through
+    if (!response.data) {
+      setSiteGroups(groups =>
+        groups.map(group => ({
+          ...group,
+          translations: group.translations.map(item => (item.id === card.id ? { ...item, translation } : item)),
+        })),
+      );
+    }
   };
 
-  const handleClearAll = () => {
+  const handleClearAll = async () => {
     if (!confirm('Clear all saved translations?')) return;
     setSiteGroups([]);
-    chrome.storage.local.set({ translations: [] });
+    const response = await sendMessage('flashcards.clearAll');
+    if (!response.success) {
+      alert('Could not clear the flashcards: ' + response.error);
+      reload();
+    }
   };
 
   const toggleSiteVisibility = (siteIndex: number) => {
@@ -236,6 +313,13 @@ const Flashcards = () => {
     setShowTranslation(false);
   };
 
+  // Language of the side of the current card being shown
+  const getCurrentCardLang = () => {
+    const currentCard = reviewCards[currentCardIndex];
+    const showingOriginal = showTranslation === isReversed;
+    return showingOriginal ? currentCard?.original_language : currentCard?.translation_language;
+  };
+
   const getCurrentCardText = () => {
     const currentCard = reviewCards[currentCardIndex];
     if (!currentCard) return '';
@@ -263,6 +347,31 @@ const Flashcards = () => {
     linkElement.click();
   };
 
+  // Each card is saved like a lookup, so a word already there counts as met again rather than added twice
+  const importTranslations = async (translations: TranslationItem[]) => {
+    let failed = 0;
+    importing.current = true;
+    for (const translation of translations) {
+      const response = await sendMessage('flashcards.save', {
+        original: translation.original,
+        translation: translation.translation,
+        translationLanguage: translation.translation_language ?? '',
+        originalLanguage: translation.original_language,
+        url: translation.url,
+        context: translation.context,
+      });
+      if (!response.success) failed++;
+    }
+    importing.current = false;
+    reload();
+
+    alert(
+      failed
+        ? `Imported ${translations.length - failed} of ${translations.length} flashcards.`
+        : `Imported ${translations.length} flashcards successfully!`,
+    );
+  };
+
   const importFlashcards = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -274,52 +383,7 @@ const Flashcards = () => {
         const translations = JSON.parse(content) as TranslationItem[];
 
         if (Array.isArray(translations) && translations.every(t => t.original && t.translation && t.date)) {
-          chrome.storage.local.get({ translations: [] }, res => {
-            const existing = res.translations as TranslationItem[];
-            const merged = [...existing, ...translations];
-
-            const groupTranslationsBySite = (translations: TranslationItem[]): SiteGroup[] => {
-              // ... same implementation as above
-              const groups: { [domain: string]: SiteGroup } = {};
-              translations.forEach((translation, index) => {
-                const translationWithId = { ...translation, id: translation.id || `translation-${index}` };
-                const domain = getDomain(translation.url || '');
-
-                let siteUrl = '#';
-                if (translation.url && translation.url.trim() !== '') {
-                  if (translation.url.startsWith('http://') || translation.url.startsWith('https://')) {
-                    siteUrl = translation.url;
-                  } else if (!translation.url.includes('chrome-extension://')) {
-                    siteUrl = `https://${translation.url}`;
-                  }
-                }
-
-                if (!groups[domain]) {
-                  groups[domain] = { domain, url: siteUrl, translations: [], visible: true };
-                }
-
-                groups[domain].translations.push(translationWithId);
-              });
-
-              return Object.values(groups).sort((a, b) => {
-                const latestA = Math.max(...a.translations.map(t => new Date(t.date).getTime()));
-                const latestB = Math.max(...b.translations.map(t => new Date(t.date).getTime()));
-                return latestB - latestA;
-              });
-            };
-
-            const groups = groupTranslationsBySite(merged);
-
-            const dailyGroup = siteGroups.find(group => group.domain === '📅 Daily Words');
-            if (dailyGroup) {
-              setSiteGroups([dailyGroup, ...groups]);
-            } else {
-              setSiteGroups(groups);
-            }
-
-            chrome.storage.local.set({ translations: merged });
-            alert(`Imported ${translations.length} flashcards successfully!`);
-          });
+          importTranslations(translations);
         } else {
           alert('Invalid file format. Please import a valid flashcards export file.');
         }
@@ -454,7 +518,8 @@ const Flashcards = () => {
                 padding: '20px',
                 border: '1px solid #eee',
                 borderRadius: '5px',
-              }}>
+              }}
+              {...getLangProps(getCurrentCardLang())}>
               {getCurrentCardText()}
             </div>
 
@@ -613,7 +678,8 @@ const Flashcards = () => {
                 </div>
                 <h3 style={{ fontSize: '20px', fontWeight: '600', marginBottom: '8px' }}>No flashcards yet</h3>
                 <p style={{ color: '#6c757d', marginBottom: '24px', maxWidth: '400px', margin: '0 auto 24px' }}>
-                  Start highlighting and translating text on websites to build your personalized flashcard collection.
+                  {notice ||
+                    'Start highlighting and translating text on websites to build your personalized flashcard collection.'}
                 </p>
                 <button
                   onClick={() => window.close()}
@@ -746,9 +812,10 @@ const Flashcards = () => {
                     }}>
                     {siteGroup.translations.map(card => {
                       const date = new Date(card.date);
+                      const encounters = getEncounterSummary(card);
                       return (
                         <div
-                          key={card.id}
+                          key={card.id ?? `${card.original}-${card.date}`}
                           style={{
                             position: 'relative',
                             backgroundColor: 'white',
@@ -759,7 +826,7 @@ const Flashcards = () => {
                           }}>
                           {siteGroup.domain !== '📅 Daily Words' && (
                             <button
-                              onClick={() => handleDeleteCard(siteIndex, card.id!)}
+                              onClick={() => card.id && handleDeleteCard(siteIndex, card.id)}
                               style={{
                                 position: 'absolute',
                                 top: '8px',
@@ -789,7 +856,7 @@ const Flashcards = () => {
                                 textTransform: 'uppercase',
                                 letterSpacing: '0.5px',
                               }}>
-                              Original
+                              {getSideLabel('Original', card.original_language)}
                             </div>
                             <div
                               style={{
@@ -797,7 +864,8 @@ const Flashcards = () => {
                                 fontWeight: '600',
                                 marginBottom: '10px',
                                 lineHeight: '1.4',
-                              }}>
+                              }}
+                              {...getLangProps(card.original_language)}>
                               {escapeHtml(card.original)}
                             </div>
                           </div>
@@ -811,16 +879,32 @@ const Flashcards = () => {
                                 textTransform: 'uppercase',
                                 letterSpacing: '0.5px',
                               }}>
-                              Translation
+                              {getSideLabel('Translation', card.translation_language)}
                             </div>
                             <div
                               style={{
                                 fontSize: '14px',
                                 color: '#0d6efd',
                                 lineHeight: '1.4',
-                              }}>
+                              }}
+                              {...getLangProps(card.translation_language)}>
                               {escapeHtml(card.translation)}
                             </div>
+                            {card.id && (
+                              <button
+                                onClick={() => handleEditCard(card)}
+                                style={{
+                                  marginTop: '6px',
+                                  padding: 0,
+                                  border: 'none',
+                                  background: 'none',
+                                  color: '#6c757d',
+                                  cursor: 'pointer',
+                                  fontSize: '11px',
+                                }}>
+                                Edit translation
+                              </button>
+                            )}
                           </div>
 
                           <div
@@ -832,6 +916,7 @@ const Flashcards = () => {
                               marginTop: '10px',
                             }}>
                             {date.toLocaleDateString()} {date.toLocaleTimeString()}
+                            {encounters && <div>{encounters}</div>}
                           </div>
                         </div>
                       );
@@ -843,6 +928,8 @@ const Flashcards = () => {
           )}
         </div>
       </section>
+
+      <Dictionaries />
     </main>
   );
 };
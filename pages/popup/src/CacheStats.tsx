@@ -0,0 +1,58 @@
+import { sendMessage } from '@extension/messaging';
+import { useEffect, useState } from 'react';
+import type { CacheStats as CacheStatsResponse } from '@extension/messaging';
+
+export default function CacheStats() {
+  const [stats, setStats] = useState<CacheStatsResponse | null>(null);
+
+  const loadStats = async () => {
+    const response = await sendMessage('cache.getStats');
+    if (response.success) {
+      setStats(response.data);
+    }
+  };
+
+  const clearCache = async () => {
+    if (!confirm('Clear the translation cache?')) return;
+    await sendMessage('cache.clear');
+    loadStats();
+  };
+
+  useEffect(() => {
+    loadStats();
+  }, []);
+
+  if (!stats) return null;
+
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: 10,
+        fontSize: 11,
+        color: '#666',
+      }}>
+      <span>
+        Cache: {stats.size.toLocaleString()} / {stats.maxSize.toLocaleString()} entries, {hitRate}% hits
+      </span>
+      <button
+        onClick={clearCache}
+        style={{
+          padding: '2px 6px',
+          backgroundColor: 'transparent',
+          color: '#1a73e8',
+          border: '1px solid #1a73e8',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: 11,
+        }}>
+        Clear cache
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { findSiteSetting, getSiteHost, useStorage, withSuspense } from '@extension/shared';
+import { vocabularyHighlightStorage } from '@extension/storage';
+import { useEffect, useState } from 'react';
+
+const labelStyle = { display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6, fontSize: 12 };
+
+const HighlightSettings = () => {
+  const { enabled, sites } = useStorage(vocabularyHighlightStorage);
+  const [tabUrl, setTabUrl] = useState('');
+
+  useEffect(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => setTabUrl(tab?.url ?? ''));
+  }, []);
+
+  const currentHost = getSiteHost(tabUrl);
+  // An entry for a parent domain covers this site too
+  const enabledHere = findSiteSetting(tabUrl, sites) ?? enabled;
+
+  // Back to following the global setting when the site would match it anyway
+  const setEnabledHere = (value: boolean) =>
+    vocabularyHighlightStorage.setSiteEnabled(currentHost, value === enabled ? null : value);
+
+  return (
+    <div style={{ marginBottom: 10 }}>
+      <label style={labelStyle}>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={e => vocabularyHighlightStorage.setEnabled(e.target.checked)}
+        />
+        Underline saved words on pages
+      </label>
+      {currentHost && (
+        <label style={labelStyle}>
+          <input type="checkbox" checked={enabledHere} onChange={e => setEnabledHere(e.target.checked)} />
+          On {currentHost}
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default withSuspense(HighlightSettings, <div style={{ fontSize: 12, color: '#666' }}>Loading...</div>);
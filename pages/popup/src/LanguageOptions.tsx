@@ -0,0 +1,36 @@
+import { findLanguage, getLanguages } from '@extension/shared';
+import type { LanguageRoleType } from '@extension/shared';
+import type { TranslationProviderIdType } from '@extension/storage';
+
+const getLabel = ({ name, nativeName }: { name: string; nativeName: string }) =>
+  name === nativeName ? name : `${name} · ${nativeName}`;
+
+/**
+ * `<option>`s for the languages the provider takes in a role, from the shared language registry.
+ */
+const LanguageOptions = ({
+  provider,
+  languageRole,
+  selected,
+}: {
+  provider: TranslationProviderIdType;
+  languageRole: LanguageRoleType;
+  selected?: string;
+}) => {
+  const languages = getLanguages(provider, languageRole);
+  // A language picked while another provider was selected stays listed, rather than the picker showing blank
+  const current = selected ? findLanguage(selected) : undefined;
+  const listed = current && !languages.includes(current) ? [current, ...languages] : languages;
+
+  return (
+    <>
+      {listed.map(language => (
+        <option key={language.code} value={language.code}>
+          {getLabel(language)}
+        </option>
+      ))}
+    </>
+  );
+};
+
+export default LanguageOptions;
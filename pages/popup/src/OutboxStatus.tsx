@@ -0,0 +1,33 @@
+import { onBroadcast, sendMessage } from '@extension/messaging';
+import { useEffect, useState } from 'react';
+
+export default function OutboxStatus() {
+  const [pending, setPending] = useState(0);
+
+  useEffect(() => {
+    sendMessage('outbox.getStatus').then(response => {
+      if (response.success) {
+        setPending(response.data.pending);
+      }
+    });
+
+    return onBroadcast('outboxUpdated', status => setPending(status.pending));
+  }, []);
+
+  if (pending === 0) return null;
+
+  return (
+    <div
+      style={{
+        marginTop: 10,
+        padding: '6px 8px',
+        fontSize: 11,
+        color: '#8a5a00',
+        backgroundColor: '#fff4e0',
+        borderRadius: '4px',
+      }}>
+      {pending === 1 ? '1 change' : `${pending.toLocaleString()} changes`} waiting to sync. They'll be saved once you're
+      back online.
+    </div>
+  );
+}
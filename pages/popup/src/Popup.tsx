@@ -1,36 +1,35 @@
 // Popup.tsx
+import { onBroadcast, sendMessage } from '@extension/messaging';
+import { DEFAULT_TARGET_LANGUAGE, toLanguageCode } from '@extension/shared';
+import CacheStats from '@src/CacheStats';
+import HighlightSettings from '@src/HighlightSettings';
+import OutboxStatus from '@src/OutboxStatus';
+import ProviderSettings from '@src/ProviderSettings';
+import QuickTranslate from '@src/QuickTranslate';
+import SavedTranslations from '@src/SavedTranslations';
+import SelectionSettings from '@src/SelectionSettings';
+import SiteAccessSettings from '@src/SiteAccessSettings';
+import SourceLanguageSettings from '@src/SourceLanguageSettings';
+import SubtitleSettings from '@src/SubtitleSettings';
+import TargetLanguageSettings from '@src/TargetLanguageSettings';
+import TooltipSettings from '@src/TooltipSettings';
+import TranslatePageButton from '@src/TranslatePageButton';
+import TriggerSettings from '@src/TriggerSettings';
 import React, { useEffect, useState } from 'react';
+import type { AuthUser, CharacterUsage, SubscriptionStatus, SubscriptionTier } from '@extension/messaging';
 
-type TranslationItem = {
-  id?: string; // Supabase UUID if synced
-  original: string;
-  translation: string;
-  date: string;
-  url?: string;
-  original_language?: string;
-  translation_language?: string;
-};
-
-type User = {
-  id: string;
-  email: string;
-};
+type User = AuthUser;
 
-type SubscriptionStatus = {
-  subscribed: boolean;
-  productId?: string;
-  subscriptionEnd?: string;
-};
-
-type CharacterUsage = {
-  used: number;
-  limit: number;
+const TIER_NAMES: Record<SubscriptionTier, string> = {
+  anonymous: 'Not Logged In',
+  free: 'Free',
+  pro: 'Pro',
+  premium: 'Premium',
 };
 
 export default function Popup() {
-  const [items, setItems] = useState<TranslationItem[]>([]);
   const [enabled, setEnabled] = useState(true);
-  const [targetLang, setTargetLang] = useState('EN-US');
+  const [targetLang, setTargetLang] = useState(DEFAULT_TARGET_LANGUAGE);
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(false);
   const [authEmail, setAuthEmail] = useState('');
@@ -40,26 +39,21 @@ export default function Popup() {
   const [subscription, setSubscription] = useState<SubscriptionStatus | null>(null);
   const [characterUsage, setCharacterUsage] = useState<CharacterUsage | null>(null);
 
-  // --- Effect: Load translations + auth state
+  // --- Effect: Load auth state
   useEffect(() => {
     const initialize = async () => {
       await checkAuth();
-      loadTranslations();
-      
+
       // Load character usage immediately (works for both logged in and not logged in)
       loadCharacterUsage();
     };
-    
+
     initialize();
 
     chrome.storage.local.get({ enabled: true }, res => setEnabled(res.enabled));
-    chrome.storage.local.get({ targetLang: 'EN-US' }, res => setTargetLang(res.targetLang));
-
-    // Listen for Supabase changes from background
-    chrome.runtime.onMessage.addListener(handleBackgroundMessage);
-    return () => {
-      chrome.runtime.onMessage.removeListener(handleBackgroundMessage);
-    };
+    chrome.storage.local.get({ targetLang: DEFAULT_TARGET_LANGUAGE }, res =>
+      setTargetLang(toLanguageCode(res.targetLang)),
+    );
   }, []);
 
   // --- Effect: Load subscription and usage when user changes
@@ -73,41 +67,14 @@ export default function Popup() {
     }
   }, [user]);
 
-  // --- Refresh character usage periodically when popup is open
-  useEffect(() => {
-    const interval = setInterval(() => {
-      loadCharacterUsage();
-    }, 5000); // Refresh every 5 seconds
-
-    return () => clearInterval(interval);
-  }, []);
-
-  const handleBackgroundMessage = (msg: any) => {
-    if (msg.type === 'flashcardsUpdated') {
-      loadTranslations(); // reload whenever background notifies of change
-    }
-  };
-
-  // --- Load translations from both sources, Supabase wins
-  // Modify loadTranslations to only load from Supabase
-  const loadTranslations = async () => {
-    if (user) {
-      const response = await chrome.runtime.sendMessage({
-        type: 'flashcards',
-        action: 'list',
-      });
-
-      if (response.success) {
-        setItems(response.data as TranslationItem[]);
-      } else {
-        console.error('Failed to load Supabase translations:', response.error);
-        setItems([]); // Set empty array instead of falling back to local
-      }
-    } else {
-      // User not authenticated, show empty list
-      setItems([]);
-    }
-  };
+  // --- Follow character usage live while the popup is open
+  useEffect(
+    () =>
+      onBroadcast('usageUpdated', ({ used, limit, month, syncError }) =>
+        setCharacterUsage({ used, limit, month, syncError }),
+      ),
+    [],
+  );
 
   // --- Check stored session
   const checkAuth = async () => {
@@ -118,20 +85,14 @@ export default function Popup() {
     }
 
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'auth',
-        action: 'getSession',
-      });
+      const response = await sendMessage('auth.getSession');
 
-      if (response && response.success && response.user) {
-        setUser(response.user);
+      if (response.success && response.data.user) {
+        setUser(response.data.user);
       } else {
-        const refreshResponse = await chrome.runtime.sendMessage({
-          type: 'auth',
-          action: 'refreshSession',
-        });
-        if (refreshResponse && refreshResponse.success && refreshResponse.user) {
-          setUser(refreshResponse.user);
+        const refreshResponse = await sendMessage('auth.refreshSession');
+        if (refreshResponse.success && refreshResponse.data.user) {
+          setUser(refreshResponse.data.user);
         } else {
           chrome.storage.local.remove('rememberMe');
           setUser(null);
@@ -146,9 +107,7 @@ export default function Popup() {
   // --- Handle sign in + migrate local translations
   const handleSignIn = async () => {
     setLoading(true);
-    const response = await chrome.runtime.sendMessage({
-      type: 'auth',
-      action: 'signin',
+    const response = await sendMessage('auth.signin', {
       email: authEmail,
       password: authPassword,
       remember: rememberMe,
@@ -156,28 +115,22 @@ export default function Popup() {
     setLoading(false);
 
     if (response.success) {
-      setUser(response.user);
+      setUser(response.data.user);
       setShowAuthForm(false);
       setAuthEmail('');
       setAuthPassword('');
 
-      loadTranslations();
       loadSubscription();
       loadCharacterUsage();
-      
     } else {
       alert('Sign in failed: ' + response.error);
     }
   };
 
   const handleSignOut = async () => {
-    const response = await chrome.runtime.sendMessage({
-      type: 'auth',
-      action: 'signout',
-    });
+    const response = await sendMessage('auth.signout');
     if (response.success) {
       setUser(null);
-      setItems([]); // Just clear the items
       setSubscription(null);
       loadCharacterUsage(); // Reload usage for non-logged-in state
     }
@@ -186,17 +139,10 @@ export default function Popup() {
   // --- Load subscription status
   const loadSubscription = async () => {
     try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'subscription',
-        action: 'check',
-      });
+      const response = await sendMessage('subscription.check');
       console.log('Subscription response:', response);
-      if (response && response.success) {
-        setSubscription({
-          subscribed: response.subscribed || false,
-          productId: response.productId,
-          subscriptionEnd: response.subscriptionEnd,
-        });
+      if (response.success) {
+        setSubscription(response.data);
       } else {
         console.error('Subscription check failed:', response);
       }
@@ -207,32 +153,12 @@ export default function Popup() {
 
   // --- Load character usage
   const loadCharacterUsage = async () => {
-    try {
-      const response = await chrome.runtime.sendMessage({
-        type: 'subscription',
-        action: 'getUsage',
-      });
-      console.log('Character usage response:', response);
-      if (response && response.success) {
-        setCharacterUsage({
-          used: response.used || 0,
-          limit: response.limit || 500,
-        });
-      } else {
-        console.error('Character usage check failed:', response);
-        // Set default values if request fails
-        setCharacterUsage({
-          used: 0,
-          limit: user ? 2000 : 500,
-        });
-      }
-    } catch (err) {
-      console.error('Error loading character usage:', err);
-      // Set default values on error
-      setCharacterUsage({
-        used: 0,
-        limit: user ? 2000 : 500,
-      });
+    const response = await sendMessage('subscription.getUsage');
+    if (response.success) {
+      setCharacterUsage(response.data);
+    } else {
+      // Keep showing the last known usage; the background owns the limits
+      console.error('Character usage check failed:', response.error);
     }
   };
 
@@ -240,37 +166,7 @@ export default function Popup() {
   const getSubscriptionTier = (): string => {
     if (!user) return 'Not Logged In';
     if (!subscription) return 'Loading...';
-    if (!subscription.subscribed) return 'Free';
-    if (subscription.productId === 'prod_TdgBRg4vUcghkL') return 'Pro';
-    if (subscription.productId === 'prod_TdgB3FcPDfpXCJ') return 'Premium';
-    return 'Free';
-  };
-
-    // --- Remove one translation
-  const removeItem = async (index: number) => {
-    const item = items[index];
-    if (user && item.id) {
-      await chrome.runtime.sendMessage({
-        type: 'flashcards',
-        action: 'delete',
-        id: item.id,
-      });
-      // Reload translations after deletion
-      loadTranslations();
-    }
-  };
-
-  // --- Clear all translations
-  const clearAll = async () => {
-    if (!confirm('Clear all saved translations?')) return;
-
-    if (user) {
-      await chrome.runtime.sendMessage({
-        type: 'flashcards',
-        action: 'clearAll',
-      });
-      setItems([]);
-    }
+    return TIER_NAMES[subscription.tier];
   };
 
   // --- Settings
@@ -287,10 +183,6 @@ export default function Popup() {
     window.open('https://highlightranslator.com/flashcards', '_blank');
   };
 
-  const escapeHtml = (s: string) =>
-    String(s).replace(/[&<>"']/g, m => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[m] || m));
-
-
   return (
     <div style={{ fontFamily: 'system-ui, Arial', margin: 8 }}>
       {/* Authentication Section */}
@@ -409,88 +301,55 @@ export default function Popup() {
               </div>
             ) : (
               <>
-              <button
-                onClick={() => setShowAuthForm(true)}
-                style={{
-                  padding: '6px 12px',
-                  backgroundColor: '#1a73e8',
-                  color: 'white',
-                  border: 'none',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
-                  fontSize: 12,
-                }}>
-                Sign In to Sync Translations
-              </button>
-            <p style={{ marginTop: '10px', fontSize: '14px', color: '#666' }}>
-              or{' '}
-              <a 
-                href="https://highlightranslator.com/auth" 
-                target="_blank" 
-                rel="noopener noreferrer"
-                style={{ color: '#007bff', textDecoration: 'none' }}
-              >
-              create an account here
-              </a>
-            </p>
-            </>
+                <button
+                  onClick={() => setShowAuthForm(true)}
+                  style={{
+                    padding: '6px 12px',
+                    backgroundColor: '#1a73e8',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontSize: 12,
+                  }}>
+                  Sign In to Sync Translations
+                </button>
+                <p style={{ marginTop: '10px', fontSize: '14px', color: '#666' }}>
+                  or{' '}
+                  <a
+                    href="https://highlightranslator.com/auth"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    style={{ color: '#007bff', textDecoration: 'none' }}>
+                    create an account here
+                  </a>
+                </p>
+              </>
             )}
           </div>
         )}
       </div>
 
+      <h1 style={{ fontSize: 16, margin: '6px 0 12px 0' }}>Quick translate</h1>
+
+      <QuickTranslate defaultTargetLang={targetLang} signedIn={Boolean(user)} />
+
       {/* Language Selection */}
-      <label htmlFor="target-lang" style={{ display: 'block', marginBottom: 5, fontSize: 14 }}>
-        Translate to:
-      </label>
-      <select
-        id="target-lang"
-        value={targetLang}
-        onChange={e => changeTargetLang(e.target.value)}
-        style={{
-          width: '100%',
-          padding: '6px',
-          marginBottom: '10px',
-          border: '1px solid #ddd',
-          borderRadius: '4px',
-        }}>
-        <option value="AR">Arabic</option>
-        <option value="BG">Bulgarian</option>
-        <option value="ZH">Chinese (simplified)</option>
-        <option value="ZH-TW">Chinese (traditional)</option>
-        <option value="CS">Czech</option>
-        <option value="DA">Danish</option>
-        <option value="NL">Dutch</option>
-        <option value="EN-US">English (American)</option>
-        <option value="EN-GB">English (British)</option>
-        <option value="ET">Estonian</option>
-        <option value="FI">Finnish</option>
-        <option value="FR">French</option>
-        <option value="DE">German</option>
-        <option value="EL">Greek</option>
-        <option value="HE">Hebrew</option>
-        <option value="HU">Hungarian</option>
-        <option value="ID">Indonesian</option>
-        <option value="IT">Italian</option>
-        <option value="JA">Japanese</option>
-        <option value="KO">Korean</option>
-        <option value="LV">Latvian</option>
-        <option value="LT">Lithuanian</option>
-        <option value="NO">Norwegian (bokmål)</option>
-        <option value="PL">Polish</option>
-        <option value="PT">Portuguese</option>
-        <option value="PT-BR">Portuguese (Brazilian)</option>
-        <option value="RO">Romanian</option>
-        <option value="RU">Russian</option>
-        <option value="SK">Slovak</option>
-        <option value="SL">Slovenian</option>
-        <option value="ES">Spanish</option>
-        <option value="ES-XL">Spanish (Latin American)</option>
-        <option value="SV">Swedish</option>
-        <option value="TR">Turkish</option>
-        <option value="UK">Ukrainian</option>
-        <option value="VI">Vietnamese</option>
-      </select>
+      <SourceLanguageSettings />
+
+      <TargetLanguageSettings targetLang={targetLang} onChange={changeTargetLang} />
+
+      <TriggerSettings />
+
+      <SelectionSettings entitlements={subscription?.entitlements} />
+
+      <HighlightSettings />
+
+      <SubtitleSettings />
+
+      <TooltipSettings />
+
+      <ProviderSettings />
 
       <h1 style={{ fontSize: 16, margin: '6px 0 12px 0' }}>Saved translations</h1>
 
@@ -509,6 +368,8 @@ export default function Popup() {
         Open Flashcards
       </button>
 
+      <SavedTranslations signedIn={Boolean(user)} />
+
       <label
         style={{
           display: 'flex',
@@ -521,6 +382,10 @@ export default function Popup() {
         Enable extension
       </label>
 
+      <SiteAccessSettings extensionEnabled={enabled} />
+
+      <TranslatePageButton />
+
       {/* Character Usage Progress Bar */}
       <div style={{ marginTop: 15, padding: 10, backgroundColor: '#f5f5f5', borderRadius: '4px' }}>
         <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 6 }}>
@@ -551,8 +416,8 @@ export default function Popup() {
                     characterUsage.used / characterUsage.limit > 0.9
                       ? '#ff4444'
                       : characterUsage.used / characterUsage.limit > 0.7
-                      ? '#ffa500'
-                      : '#1a73e8',
+                        ? '#ffa500'
+                        : '#1a73e8',
                   transition: 'width 0.3s ease',
                 }}
               />
@@ -562,14 +427,21 @@ export default function Popup() {
                 ? `${(characterUsage.limit - characterUsage.used).toLocaleString()} characters remaining this month`
                 : 'Character limit reached'}
             </div>
+            {characterUsage.syncError && (
+              <div role="alert" style={{ fontSize: 11, color: '#ff4444', marginTop: 4, textAlign: 'center' }}>
+                {characterUsage.syncError}
+              </div>
+            )}
           </>
         ) : (
-          <div style={{ fontSize: 11, color: '#666', marginTop: 4, textAlign: 'center' }}>
-            Loading usage data...
-          </div>
+          <div style={{ fontSize: 11, color: '#666', marginTop: 4, textAlign: 'center' }}>Loading usage data...</div>
         )}
       </div>
 
+      <OutboxStatus />
+
+      <CacheStats />
+
       {user && (
         <div style={{ marginTop: 10, fontSize: 12, color: '#666', textAlign: 'center' }}>
           Translations are being synced to your account
@@ -0,0 +1,167 @@
+import { useStorage, withSuspense } from '@extension/shared';
+import { translatorSettingsStorage } from '@extension/storage';
+import { useEffect, useState } from 'react';
+import type { TranslationProviderIdType } from '@extension/storage';
+
+const PROVIDERS: { id: TranslationProviderIdType; label: string; endpointPlaceholder: string; needsKey: boolean }[] = [
+  {
+    id: 'deepl-free',
+    label: 'DeepL Free',
+    endpointPlaceholder: 'https://api-free.deepl.com/v2/translate',
+    needsKey: true,
+  },
+  { id: 'deepl-pro', label: 'DeepL Pro', endpointPlaceholder: 'https://api.deepl.com/v2/translate', needsKey: true },
+  { id: 'libretranslate', label: 'LibreTranslate', endpointPlaceholder: 'https://libretranslate.com', needsKey: false },
+  { id: 'mock', label: 'Mock (offline)', endpointPlaceholder: '', needsKey: false },
+];
+
+const inputStyle = {
+  width: '100%',
+  padding: '6px',
+  marginBottom: '6px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: 12,
+};
+
+const buttonStyle = {
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  background: 'white',
+  fontSize: 12,
+  padding: '6px',
+  marginBottom: '6px',
+  cursor: 'pointer',
+};
+
+/**
+ * Asks for access to a custom endpoint's origin, since only the public provider hosts are granted in the manifest.
+ * Chrome only shows the prompt in response to a user gesture, so this is called from a click.
+ */
+const requestEndpointPermission = async (endpoint: string) => {
+  let origin: string;
+  try {
+    ({ origin } = new URL(endpoint));
+  } catch {
+    return `"${endpoint}" isn't a valid URL.`;
+  }
+  try {
+    return (await chrome.permissions.request({ origins: [`${origin}/*`] }))
+      ? null
+      : `Access to ${origin} wasn't granted, the endpoint isn't saved.`;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+};
+
+const ProviderSettings = () => {
+  const { provider, endpoints, apiKeys, contextAware, dictionaryLookup } = useStorage(translatorSettingsStorage);
+  const [endpoint, setEndpoint] = useState(endpoints[provider] ?? '');
+  const [apiKey, setApiKey] = useState(apiKeys[provider] ?? '');
+  const [endpointStatus, setEndpointStatus] = useState<{ error: boolean; message: string } | null>(null);
+
+  const current = PROVIDERS.find(p => p.id === provider) ?? PROVIDERS[0];
+
+  useEffect(() => {
+    setEndpoint(endpoints[provider] ?? '');
+    setApiKey(apiKeys[provider] ?? '');
+  }, [provider, endpoints, apiKeys]);
+
+  useEffect(() => setEndpointStatus(null), [provider]);
+
+  const saveEndpoint = async () => {
+    const trimmed = endpoint.trim();
+    const error = trimmed ? await requestEndpointPermission(trimmed) : null;
+    if (error) {
+      setEndpointStatus({ error: true, message: error });
+      return;
+    }
+    await translatorSettingsStorage.setEndpoint(provider, trimmed);
+    setEndpointStatus({
+      error: false,
+      message: trimmed ? 'Endpoint saved.' : `Using the default endpoint of ${current.label}.`,
+    });
+  };
+
+  return (
+    <div style={{ marginBottom: 10 }}>
+      <label htmlFor="translation-provider" style={{ display: 'block', marginBottom: 5, fontSize: 14 }}>
+        Translation provider:
+      </label>
+      <select
+        id="translation-provider"
+        value={provider}
+        onChange={e => translatorSettingsStorage.setProvider(e.target.value as TranslationProviderIdType)}
+        style={{ ...inputStyle, fontSize: undefined }}>
+        {PROVIDERS.map(p => (
+          <option key={p.id} value={p.id}>
+            {p.label}
+          </option>
+        ))}
+      </select>
+
+      {provider !== 'mock' && (
+        <>
+          <div style={{ display: 'flex', gap: 4 }}>
+            <input
+              type="url"
+              placeholder={current.endpointPlaceholder}
+              aria-label="Provider endpoint"
+              value={endpoint}
+              onChange={e => {
+                setEndpoint(e.target.value);
+                setEndpointStatus(null);
+              }}
+              onKeyDown={e => {
+                if (e.key === 'Enter') saveEndpoint();
+              }}
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button
+              onClick={saveEndpoint}
+              disabled={endpoint.trim() === (endpoints[provider] ?? '')}
+              title="Save the endpoint and grant the extension access to it"
+              style={buttonStyle}>
+              Save
+            </button>
+          </div>
+          {endpointStatus && (
+            <p
+              role={endpointStatus.error ? 'alert' : 'status'}
+              style={{ margin: '0 0 6px 0', fontSize: 11, color: endpointStatus.error ? '#ff4444' : '#666' }}>
+              {endpointStatus.message}
+            </p>
+          )}
+          <input
+            type="password"
+            placeholder={current.needsKey ? 'API key' : 'API key (optional)'}
+            aria-label="Provider API key"
+            value={apiKey}
+            onChange={e => setApiKey(e.target.value)}
+            onBlur={() => translatorSettingsStorage.setApiKey(provider, apiKey)}
+            style={inputStyle}
+          />
+        </>
+      )}
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+        <input
+          type="checkbox"
+          checked={!!contextAware}
+          onChange={e => translatorSettingsStorage.setContextAware(e.target.checked)}
+        />
+        Use the surrounding sentence and translate it too
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+        <input
+          type="checkbox"
+          checked={dictionaryLookup !== false}
+          onChange={e => translatorSettingsStorage.setDictionaryLookup(e.target.checked)}
+        />
+        Look up single words in offline dictionaries
+      </label>
+    </div>
+  );
+};
+
+export default withSuspense(ProviderSettings, <div style={{ fontSize: 12, color: '#666' }}>Loading...</div>);
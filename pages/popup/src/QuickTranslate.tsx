@@ -0,0 +1,204 @@
+import { sendMessage } from '@extension/messaging';
+import {
+  findLanguage,
+  getBaseLanguage,
+  getLanguageName,
+  getLanguages,
+  useStorage,
+  withSuspense,
+} from '@extension/shared';
+import { translatorSettingsStorage } from '@extension/storage';
+import LanguageOptions from '@src/LanguageOptions';
+import { useEffect, useState } from 'react';
+import type { TranslateResult } from '@extension/messaging';
+import type { LanguageRoleType } from '@extension/shared';
+import type { TranslationProviderIdType } from '@extension/storage';
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'queued';
+
+const inputStyle = {
+  width: '100%',
+  boxSizing: 'border-box' as const,
+  padding: '6px',
+  marginBottom: '6px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: 12,
+};
+
+const buttonStyle = {
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  background: 'white',
+  fontSize: 12,
+  padding: '6px',
+  cursor: 'pointer',
+};
+
+const getBaseCode = (code: string) => getBaseLanguage(code)?.code ?? code;
+
+// The language the provider takes in the role that is, or is a variant of, the same language, e.g. `en-US` as a DeepL
+// target for `en`
+const findRelative = (provider: TranslationProviderIdType, role: LanguageRoleType, code: string) =>
+  getLanguages(provider, role).find(language => getBaseCode(language.code) === getBaseCode(code))?.code;
+
+const QuickTranslate = ({ defaultTargetLang, signedIn }: { defaultTargetLang: string; signedIn: boolean }) => {
+  const { provider } = useStorage(translatorSettingsStorage);
+  const [text, setText] = useState('');
+  const [sourceLang, setSourceLang] = useState('auto');
+  const [targetLang, setTargetLang] = useState(defaultTargetLang);
+  // The text the result belongs to, which may have been edited since
+  const [result, setResult] = useState<(TranslateResult & { original: string }) | null>(null);
+  const [translating, setTranslating] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [notice, setNotice] = useState('');
+
+  // Follows the "Translate to" setting until a language is picked here
+  useEffect(() => setTargetLang(defaultTargetLang), [defaultTargetLang]);
+
+  // Same pipeline as a selection on a page, so the characters count against the usage meter
+  const translate = async () => {
+    const original = text.trim();
+    if (!original || translating) return;
+
+    setTranslating(true);
+    setNotice('');
+    const response = await sendMessage('translate', { text: original, save: false, sourceLang, targetLang });
+    setTranslating(false);
+    setSaveStatus('idle');
+    if (response.success) {
+      setResult({ ...response.data, original });
+    } else {
+      setResult(null);
+      setNotice(response.error);
+    }
+  };
+
+  // With detection on, the detected language becomes the target; the translation becomes the text to translate back
+  const detectedLang = sourceLang === 'auto' ? result?.sourceLang : sourceLang;
+  const swapTarget =
+    detectedLang && detectedLang !== 'auto' ? findRelative(provider, 'target', detectedLang) : undefined;
+  const swapSource = findRelative(provider, 'source', targetLang);
+
+  const swap = () => {
+    if (!swapTarget || !swapSource) return;
+    setSourceLang(swapSource);
+    setTargetLang(swapTarget);
+    if (result?.translation) {
+      setText(result.translation);
+      setResult(null);
+    }
+  };
+
+  const save = async () => {
+    if (!result?.translation) return;
+    setSaveStatus('saving');
+    const response = await sendMessage('flashcards.save', {
+      original: result.original,
+      translation: result.translation,
+      translationLanguage: result.targetLang ?? targetLang,
+      originalLanguage: result.sourceLang,
+    });
+    if (response.success) {
+      setSaveStatus(response.data ? 'saved' : 'queued');
+    } else {
+      setSaveStatus('idle');
+      setNotice(response.error);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: 10 }}>
+      <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+        <select
+          value={sourceLang}
+          onChange={e => setSourceLang(e.target.value)}
+          aria-label="Translate from"
+          style={{ ...inputStyle, flex: 1 }}>
+          <option value="auto">Detect language</option>
+          <LanguageOptions provider={provider} languageRole="source" selected={sourceLang} />
+        </select>
+        <button
+          onClick={swap}
+          disabled={!swapTarget || !swapSource}
+          title="Swap languages"
+          aria-label="Swap languages"
+          style={{ ...buttonStyle, marginBottom: 6 }}>
+          ⇄
+        </button>
+        <select
+          value={targetLang}
+          onChange={e => setTargetLang(e.target.value)}
+          aria-label="Translate to"
+          style={{ ...inputStyle, flex: 1 }}>
+          <LanguageOptions provider={provider} languageRole="target" selected={targetLang} />
+        </select>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) translate();
+        }}
+        placeholder="Type or paste text to translate"
+        aria-label="Text to translate"
+        rows={3}
+        dir={sourceLang === 'auto' ? 'auto' : (findLanguage(sourceLang)?.dir ?? 'auto')}
+        style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+      />
+      <button onClick={translate} disabled={!text.trim() || translating} style={{ ...buttonStyle, width: '100%' }}>
+        {translating ? 'Translating…' : 'Translate'}
+      </button>
+
+      {notice && <p style={{ fontSize: 11, color: '#666', margin: '6px 0 0 0' }}>{notice}</p>}
+
+      {result && (
+        <div role="status" style={{ marginTop: 6, fontSize: 12 }}>
+          <p
+            style={{ margin: '0 0 4px 0', fontSize: 14 }}
+            lang={result.targetLang}
+            dir={findLanguage(result.targetLang)?.dir ?? 'auto'}>
+            {result.translation}
+          </p>
+          {sourceLang === 'auto' && result.sourceLang && result.sourceLang !== 'auto' && (
+            <p style={{ margin: '0 0 4px 0', fontSize: 11, color: '#666' }}>
+              Detected {getLanguageName(result.sourceLang)}
+            </p>
+          )}
+          {/* Only words found in an imported dictionary have them, translation providers return one translation */}
+          {result.alternatives && result.alternatives.length > 0 && (
+            <>
+              <p style={{ margin: '0 0 2px 0', fontSize: 11, color: '#666' }}>Also in your dictionaries:</p>
+              <ul style={{ margin: '0 0 6px 0', paddingLeft: 18 }}>
+                {result.alternatives.map(alternative => (
+                  <li key={alternative} lang={result.targetLang}>
+                    {alternative}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          {signedIn ? (
+            <button
+              onClick={save}
+              disabled={!result.translation || saveStatus !== 'idle'}
+              style={{ ...buttonStyle, width: '100%' }}>
+              {saveStatus === 'saved'
+                ? 'Saved as a flashcard'
+                : saveStatus === 'queued'
+                  ? 'Saved offline, it syncs when back online'
+                  : saveStatus === 'saving'
+                    ? 'Saving…'
+                    : 'Save as flashcard'}
+            </button>
+          ) : (
+            <p style={{ margin: 0, fontSize: 11, color: '#666' }}>Sign in to save translations as flashcards.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default withSuspense(QuickTranslate, <div style={{ fontSize: 12, color: '#666' }}>Loading...</div>);
@@ -0,0 +1,258 @@
+import { onBroadcast, sendMessage } from '@extension/messaging';
+import { useEffect, useRef, useState } from 'react';
+import type { Flashcard } from '@extension/messaging';
+
+type PendingDelete = { item: Flashcard; timer: ReturnType<typeof setTimeout> };
+
+const RECENT_COUNT = 50;
+// The most the background returns at once, used to page through everything for the export
+const EXPORT_PAGE_SIZE = 500;
+const UNDO_MS = 5000;
+const SEARCH_DELAY_MS = 250;
+// Separates the two codes of a language pair in the filter's value
+const PAIR_SEPARATOR = '>';
+const TSV_COLUMNS: (keyof Flashcard)[] = [
+  'original',
+  'translation',
+  'original_language',
+  'translation_language',
+  'context',
+  'url',
+  'date',
+];
+
+const inputStyle = {
+  width: '100%',
+  boxSizing: 'border-box' as const,
+  padding: '6px',
+  marginBottom: '6px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: 12,
+};
+
+const linkButtonStyle = { border: 'none', background: 'none', color: '#1a73e8', cursor: 'pointer', fontSize: 11 };
+
+const toPair = ({ original_language, translation_language }: Flashcard) =>
+  `${(original_language || 'auto').toUpperCase()}${PAIR_SEPARATOR}${(translation_language || '').toUpperCase()}`;
+
+const formatPair = (pair: string) => pair.replace(PAIR_SEPARATOR, ' → ');
+
+// Tabs and line breaks inside a field would start a new column or row
+const toTsvField = (value: unknown) => String(value ?? '').replace(/[\t\r\n]+/g, ' ');
+
+const toTsv = (items: Flashcard[]) =>
+  [TSV_COLUMNS, ...items.map(item => TSV_COLUMNS.map(column => item[column]))]
+    .map(row => row.map(toTsvField).join('\t'))
+    .join('\n');
+
+// What the list is narrowed to, as `flashcards.list` takes it
+const getFilters = (query: string, pair: string) => {
+  const [originalLanguage, translationLanguage] = pair ? pair.split(PAIR_SEPARATOR) : [];
+  return {
+    search: query || undefined,
+    originalLanguage: originalLanguage === 'AUTO' ? 'auto' : originalLanguage,
+    translationLanguage,
+  };
+};
+
+const SavedTranslations = ({ signedIn }: { signedIn: boolean }) => {
+  const [items, setItems] = useState<Flashcard[]>([]);
+  const [total, setTotal] = useState(0);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [pair, setPair] = useState('');
+  // Pairs seen in the unfiltered list, kept while filtering so the choice doesn't narrow to the current one
+  const [pairs, setPairs] = useState<string[]>([]);
+  const [pending, setPending] = useState<PendingDelete | null>(null);
+  const [notice, setNotice] = useState('');
+  const pendingRef = useRef<PendingDelete | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Loaded again whenever a flashcard changes anywhere, like a word saved from a page while the popup is open
+  useEffect(() => {
+    if (!signedIn) {
+      setItems([]);
+      setTotal(0);
+      return;
+    }
+
+    const loadTranslations = async () => {
+      const response = await sendMessage('flashcards.list', { limit: RECENT_COUNT, ...getFilters(query, pair) });
+      if (!response.success) {
+        console.error('Failed to load Supabase translations:', response.error);
+        return;
+      }
+      setItems(response.data.items);
+      setTotal(response.data.total);
+      if (!pair) {
+        setPairs(current => [...new Set([...current, ...response.data.items.map(toPair)])].sort());
+      }
+    };
+
+    loadTranslations();
+    return onBroadcast('flashcardsUpdated', loadTranslations);
+  }, [signedIn, query, pair]);
+
+  // A delete waiting for its undo to run out still happens when the popup closes
+  useEffect(() => {
+    const flush = () => {
+      const deletion = pendingRef.current;
+      if (deletion?.item.id) sendMessage('flashcards.delete', { id: deletion.item.id });
+    };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  const commitDelete = (deletion: PendingDelete) => {
+    clearTimeout(deletion.timer);
+    if (deletion.item.id) sendMessage('flashcards.delete', { id: deletion.item.id });
+    if (pendingRef.current === deletion) {
+      pendingRef.current = null;
+      setPending(null);
+    }
+  };
+
+  // --- Remove one translation, after a few seconds to undo it in
+  const removeItem = (item: Flashcard) => {
+    if (pendingRef.current) commitDelete(pendingRef.current);
+    const deletion: PendingDelete = { item, timer: setTimeout(() => commitDelete(deletion), UNDO_MS) };
+    pendingRef.current = deletion;
+    setPending(deletion);
+  };
+
+  const undoRemove = () => {
+    if (!pendingRef.current) return;
+    clearTimeout(pendingRef.current.timer);
+    pendingRef.current = null;
+    setPending(null);
+  };
+
+  // --- Clear all translations
+  const clearAll = async () => {
+    if (!confirm('Clear all saved translations?')) return;
+    if (pendingRef.current) undoRemove();
+
+    const response = await sendMessage('flashcards.clearAll');
+    if (response.success) {
+      setItems([]);
+      setTotal(0);
+      setPairs([]);
+      setPair('');
+    } else {
+      setNotice(response.error);
+    }
+  };
+
+  // Every flashcard matching the filters, not only the ones listed
+  const copyAll = async () => {
+    const all: Flashcard[] = [];
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      const response = await sendMessage('flashcards.list', {
+        limit: EXPORT_PAGE_SIZE,
+        offset,
+        ...getFilters(query, pair),
+      });
+      if (!response.success) {
+        setNotice(response.error);
+        return;
+      }
+      all.push(...response.data.items);
+      if (response.data.items.length < EXPORT_PAGE_SIZE) break;
+    }
+
+    const rows = all.filter(item => item.id !== pending?.item.id);
+    try {
+      await navigator.clipboard.writeText(toTsv(rows));
+      setNotice(`Copied ${rows.length.toLocaleString()} translations`);
+    } catch {
+      setNotice('Could not copy to the clipboard');
+    }
+  };
+
+  if (!signedIn) {
+    return <p style={{ fontSize: 12, color: '#666' }}>Sign in to see the translations you saved.</p>;
+  }
+
+  const visible = items.filter(item => item.id !== pending?.item.id);
+
+  return (
+    <div style={{ marginBottom: 10 }}>
+      <input
+        type="search"
+        placeholder="Search words and translations"
+        aria-label="Search saved translations"
+        value={search}
+        onChange={e => setSearch(e.target.value)}
+        style={inputStyle}
+      />
+      <select value={pair} onChange={e => setPair(e.target.value)} aria-label="Language pair" style={inputStyle}>
+        <option value="">All languages</option>
+        {pairs.map(option => (
+          <option key={option} value={option}>
+            {formatPair(option)}
+          </option>
+        ))}
+      </select>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 }}>
+        <span style={{ fontSize: 11, color: '#666' }}>
+          {total > visible.length ? `Latest ${visible.length} of ${total.toLocaleString()}` : `${visible.length} saved`}
+        </span>
+        <span>
+          <button onClick={copyAll} disabled={total === 0} style={linkButtonStyle}>
+            Copy all as TSV
+          </button>
+          <button onClick={clearAll} disabled={total === 0} style={{ ...linkButtonStyle, color: '#ff4444' }}>
+            Clear all
+          </button>
+        </span>
+      </div>
+
+      {pending && (
+        <div
+          role="status"
+          style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 6, fontSize: 12, color: '#666' }}>
+          <span>Deleted “{pending.item.original}”</span>
+          <button onClick={undoRemove} style={linkButtonStyle}>
+            Undo
+          </button>
+        </div>
+      )}
+      {notice && <p style={{ fontSize: 11, color: '#666', margin: '0 0 6px 0' }}>{notice}</p>}
+
+      {visible.length === 0 ? (
+        <p style={{ fontSize: 12, color: '#666' }}>
+          {query || pair ? 'No saved translations match.' : 'Words you look up on pages show up here.'}
+        </p>
+      ) : (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0, maxHeight: 240, overflowY: 'auto' }}>
+          {visible.map(item => (
+            <li
+              key={item.id ?? `${item.original}-${item.date}`}
+              style={{ display: 'flex', gap: 6, padding: '4px 0', borderBottom: '1px solid #eee', fontSize: 12 }}>
+              <div style={{ flex: 1, minWidth: 0 }} title={item.context || undefined}>
+                <strong>{item.original}</strong> → {item.translation}
+                <div style={{ fontSize: 10, color: '#999' }}>{formatPair(toPair(item))}</div>
+              </div>
+              <button
+                onClick={() => removeItem(item)}
+                disabled={!item.id}
+                title="Delete"
+                aria-label={`Delete ${item.original}`}
+                style={{ ...linkButtonStyle, color: '#999', fontSize: 14 }}>
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SavedTranslations;
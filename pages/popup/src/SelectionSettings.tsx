@@ -0,0 +1,60 @@
+import { useStorage, withSuspense } from '@extension/shared';
+import { selectionSettingsStorage } from '@extension/storage';
+import type { Entitlements } from '@extension/messaging';
+
+const inputStyle = {
+  width: 70,
+  padding: '4px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: 12,
+};
+
+const labelStyle = { display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6, fontSize: 12 };
+
+const toLength = (value: string) => Math.max(1, Math.round(Number(value) || 1));
+
+const SelectionSettings = ({ entitlements }: { entitlements?: Entitlements }) => {
+  const { maxSelectionLength, maxContextLength, savePassages } = useStorage(selectionSettingsStorage);
+
+  // What applies is the lower of the setting and the plan's limit
+  const planNote = (setting: number, planLimit?: number) =>
+    planLimit !== undefined && setting > planLimit ? ` (${planLimit} on your plan)` : '';
+
+  return (
+    <div style={{ marginBottom: 10 }}>
+      <label style={labelStyle}>
+        Longest selection to translate:
+        <input
+          type="number"
+          min={1}
+          value={maxSelectionLength}
+          onChange={e => selectionSettingsStorage.setMaxSelectionLength(toLength(e.target.value))}
+          style={inputStyle}
+        />
+        characters{planNote(maxSelectionLength, entitlements?.maxSelectionLength)}
+      </label>
+      <label style={labelStyle}>
+        Context sent along:
+        <input
+          type="number"
+          min={1}
+          value={maxContextLength}
+          onChange={e => selectionSettingsStorage.setMaxContextLength(toLength(e.target.value))}
+          style={inputStyle}
+        />
+        characters{planNote(maxContextLength, entitlements?.maxContextLength)}
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+        <input
+          type="checkbox"
+          checked={savePassages}
+          onChange={e => selectionSettingsStorage.setSavePassages(e.target.checked)}
+        />
+        Save passages longer than a phrase as flashcards
+      </label>
+    </div>
+  );
+};
+
+export default withSuspense(SelectionSettings, <div style={{ fontSize: 12, color: '#666' }}>Loading...</div>);
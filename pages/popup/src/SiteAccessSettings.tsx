@@ -0,0 +1,127 @@
+import { getSiteAccess, normalizeSitePattern, useStorage, withSuspense } from '@extension/shared';
+import { siteAccessStorage } from '@extension/storage';
+import { useEffect, useState } from 'react';
+import type { SiteListModeType } from '@extension/storage';
+
+type SiteListProps = { label: string; patterns: string[]; onSave: (patterns: string[]) => void };
+
+const PAUSE_DURATION_MS = 60 * 60 * 1000;
+
+const buttonStyle = {
+  flex: 1,
+  padding: '6px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  background: 'white',
+  cursor: 'pointer',
+  fontSize: 12,
+};
+
+const listStyle = {
+  width: '100%',
+  boxSizing: 'border-box' as const,
+  padding: '6px',
+  marginBottom: '10px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontFamily: 'monospace',
+  fontSize: 11,
+};
+
+// One pattern per line, as typed; saved without duplicates and reduced to host names
+const toPatterns = (text: string) => [...new Set(text.split('\n').map(normalizeSitePattern).filter(Boolean))];
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const SiteList = ({ label, patterns, onSave }: SiteListProps) => {
+  const [text, setText] = useState(patterns.join('\n'));
+
+  // Picks up changes made elsewhere, like "Disable on this site" in the context menu
+  useEffect(() => setText(patterns.join('\n')), [patterns]);
+
+  return (
+    <label style={{ display: 'block', fontSize: 12 }}>
+      {label}
+      <textarea
+        rows={3}
+        value={text}
+        placeholder={'example.com\n*.example.org'}
+        onChange={e => setText(e.target.value)}
+        onBlur={() => onSave(toPatterns(text))}
+        style={listStyle}
+      />
+    </label>
+  );
+};
+
+const SiteAccessSettings = ({ extensionEnabled }: { extensionEnabled: boolean }) => {
+  const access = useStorage(siteAccessStorage);
+  const [tabUrl, setTabUrl] = useState('');
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => setTabUrl(tab?.url ?? ''));
+  }, []);
+
+  // Shows the pause as over once it is, while the popup stays open
+  useEffect(() => {
+    if (access.pausedUntil <= now) return;
+    const timer = setTimeout(() => setNow(Date.now()), access.pausedUntil - now);
+    return () => clearTimeout(timer);
+  }, [access.pausedUntil, now]);
+
+  const { host, reason, siteEnabled, blockedBy } = getSiteAccess(tabUrl, access, extensionEnabled, now);
+  const paused = access.pausedUntil > now;
+
+  const status =
+    reason === 'paused'
+      ? `Paused until ${formatTime(access.pausedUntil)}`
+      : reason === 'blocked'
+        ? `Off on ${host}${blockedBy !== host ? ` (matches ${blockedBy})` : ''}`
+        : reason === 'not-allowed'
+          ? `Off on ${host}, it isn't on the allow list`
+          : reason === 'disabled'
+            ? 'Switched off everywhere'
+            : host && `Running on ${host}`;
+
+  const togglePause = () => {
+    const start = Date.now();
+    setNow(start);
+    siteAccessStorage.setPausedUntil(paused ? 0 : start + PAUSE_DURATION_MS);
+  };
+
+  return (
+    <div style={{ marginBottom: 10 }}>
+      {status && <p style={{ fontSize: 12, color: '#666', margin: '0 0 6px 0' }}>{status}</p>}
+      <div style={{ display: 'flex', gap: 6, marginBottom: 10 }}>
+        {host && (
+          <button onClick={() => siteAccessStorage.setSiteEnabled(host, !siteEnabled)} style={buttonStyle}>
+            {siteEnabled ? 'Disable on this site' : 'Enable on this site'}
+          </button>
+        )}
+        <button onClick={togglePause} style={buttonStyle}>
+          {paused ? 'Resume' : 'Pause for 1 hour'}
+        </button>
+      </div>
+
+      <label htmlFor="site-list-mode" style={{ display: 'block', marginBottom: 5, fontSize: 12 }}>
+        Run on:
+      </label>
+      <select
+        id="site-list-mode"
+        value={access.mode}
+        onChange={e => siteAccessStorage.setMode(e.target.value as SiteListModeType)}
+        style={{ width: '100%', padding: '6px', marginBottom: '10px', border: '1px solid #ddd', borderRadius: '4px' }}>
+        <option value="block-list">Every site but the blocked ones</option>
+        <option value="allow-list">Only the allowed sites</option>
+      </select>
+
+      {access.mode === 'allow-list' && (
+        <SiteList label="Allowed sites:" patterns={access.allowList} onSave={siteAccessStorage.setAllowList} />
+      )}
+      <SiteList label="Blocked sites:" patterns={access.blockList} onSave={siteAccessStorage.setBlockList} />
+    </div>
+  );
+};
+
+export default withSuspense(SiteAccessSettings, <div style={{ fontSize: 12, color: '#666' }}>Loading...</div>);
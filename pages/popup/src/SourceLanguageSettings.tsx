@@ -0,0 +1,75 @@
+import { getLanguageName, getSiteHost, useStorage, withSuspense } from '@extension/shared';
+import { sourceLanguageStorage, translatorSettingsStorage } from '@extension/storage';
+import LanguageOptions from '@src/LanguageOptions';
+import { useEffect, useState } from 'react';
+
+const selectStyle = {
+  width: '100%',
+  padding: '6px',
+  marginBottom: '10px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+};
+
+const SourceLanguageSettings = () => {
+  const { sourceLang, siteOverrides } = useStorage(sourceLanguageStorage);
+  const { provider } = useStorage(translatorSettingsStorage);
+  const [currentHost, setCurrentHost] = useState('');
+
+  useEffect(() => {
+    chrome.tabs
+      .query({ active: true, currentWindow: true })
+      .then(([tab]) => setCurrentHost(getSiteHost(tab?.url ?? '')));
+  }, []);
+
+  return (
+    <div>
+      <label htmlFor="source-lang" style={{ display: 'block', marginBottom: 5, fontSize: 14 }}>
+        Translate from:
+      </label>
+      <select
+        id="source-lang"
+        value={sourceLang}
+        onChange={e => sourceLanguageStorage.setSourceLang(e.target.value)}
+        style={selectStyle}>
+        <option value="auto">Detect from page</option>
+        <LanguageOptions provider={provider} languageRole="source" selected={sourceLang} />
+      </select>
+
+      {currentHost && (
+        <>
+          <label htmlFor="site-source-lang" style={{ display: 'block', marginBottom: 5, fontSize: 12 }}>
+            Always treat {currentHost} as:
+          </label>
+          <select
+            id="site-source-lang"
+            value={siteOverrides[currentHost] ?? ''}
+            onChange={e => sourceLanguageStorage.setSiteOverride(currentHost, e.target.value || null)}
+            style={selectStyle}>
+            <option value="">Use the setting above</option>
+            <LanguageOptions provider={provider} languageRole="source" selected={siteOverrides[currentHost]} />
+          </select>
+        </>
+      )}
+
+      {Object.entries(siteOverrides)
+        .filter(([host]) => host !== currentHost)
+        .map(([host, lang]) => (
+          <div
+            key={host}
+            style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, color: '#666', marginBottom: 4 }}>
+            <span>
+              {host}: {getLanguageName(lang)}
+            </span>
+            <button
+              onClick={() => sourceLanguageStorage.setSiteOverride(host, null)}
+              style={{ border: 'none', background: 'none', color: '#1a73e8', cursor: 'pointer', fontSize: 11 }}>
+              Remove
+            </button>
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export default withSuspense(SourceLanguageSettings, <div style={{ fontSize: 12, color: '#666' }}>Loading...</div>);
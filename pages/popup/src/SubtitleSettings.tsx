@@ -0,0 +1,20 @@
+import { useStorage, withSuspense } from '@extension/shared';
+import { subtitleSettingsStorage } from '@extension/storage';
+
+const SubtitleSettings = () => {
+  const { enabled } = useStorage(subtitleSettingsStorage);
+
+  return (
+    <div style={{ marginBottom: 10 }}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+        <input type="checkbox" checked={enabled} onChange={e => subtitleSettingsStorage.setEnabled(e.target.checked)} />
+        Translate video subtitles
+      </label>
+      <p style={{ fontSize: 11, color: '#666', margin: '4px 0 0 0' }}>
+        Shows a translated line under the subtitles a video has switched on. Click a word in them to look it up.
+      </p>
+    </div>
+  );
+};
+
+export default withSuspense(SubtitleSettings, <div style={{ fontSize: 12, color: '#666' }}>Loading...</div>);
@@ -0,0 +1,30 @@
+import { useStorage, withSuspense } from '@extension/shared';
+import { translatorSettingsStorage } from '@extension/storage';
+import LanguageOptions from '@src/LanguageOptions';
+
+const TargetLanguageSettings = ({ targetLang, onChange }: { targetLang: string; onChange: (lang: string) => void }) => {
+  const { provider } = useStorage(translatorSettingsStorage);
+
+  return (
+    <>
+      <label htmlFor="target-lang" style={{ display: 'block', marginBottom: 5, fontSize: 14 }}>
+        Translate to:
+      </label>
+      <select
+        id="target-lang"
+        value={targetLang}
+        onChange={e => onChange(e.target.value)}
+        style={{
+          width: '100%',
+          padding: '6px',
+          marginBottom: '10px',
+          border: '1px solid #ddd',
+          borderRadius: '4px',
+        }}>
+        <LanguageOptions provider={provider} languageRole="target" selected={targetLang} />
+      </select>
+    </>
+  );
+};
+
+export default withSuspense(TargetLanguageSettings, <div style={{ fontSize: 12, color: '#666' }}>Loading...</div>);
@@ -0,0 +1,59 @@
+import { useStorage, withSuspense } from '@extension/shared';
+import { tooltipSettingsStorage } from '@extension/storage';
+import { useEffect, useState } from 'react';
+
+const FONT_SIZES = [12, 14, 16, 18, 20, 24];
+
+const labelStyle = { display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6, fontSize: 12 };
+
+const TooltipSettings = () => {
+  const { fontSize, highContrast, reducedMotion } = useStorage(tooltipSettingsStorage);
+  const [focusShortcut, setFocusShortcut] = useState('');
+
+  useEffect(() => {
+    chrome.commands
+      .getAll()
+      .then(commands => setFocusShortcut(commands.find(c => c.name === 'focus-tooltip')?.shortcut ?? ''));
+  }, []);
+
+  return (
+    <div style={{ marginBottom: 10 }}>
+      <label style={labelStyle}>
+        Tooltip text size:
+        <select
+          value={fontSize}
+          onChange={e => tooltipSettingsStorage.setFontSize(Number(e.target.value))}
+          style={{ padding: '4px', border: '1px solid #ddd', borderRadius: '4px' }}>
+          {FONT_SIZES.map(size => (
+            <option key={size} value={size}>
+              {size}px
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        <input
+          type="checkbox"
+          checked={highContrast}
+          onChange={e => tooltipSettingsStorage.setHighContrast(e.target.checked)}
+        />
+        High contrast tooltip
+      </label>
+      <label style={labelStyle}>
+        <input
+          type="checkbox"
+          checked={reducedMotion}
+          onChange={e => tooltipSettingsStorage.setReducedMotion(e.target.checked)}
+        />
+        Reduce motion
+      </label>
+      <p style={{ fontSize: 11, color: '#666', margin: 0 }}>
+        {focusShortcut
+          ? `Press ${focusShortcut} to move into the tooltip, Tab between its buttons and Escape to close it.`
+          : 'Set a shortcut to move into the tooltip; Escape closes it.'}
+      </p>
+    </div>
+  );
+};
+
+export default withSuspense(TooltipSettings, <div style={{ fontSize: 12, color: '#666' }}>Loading...</div>);
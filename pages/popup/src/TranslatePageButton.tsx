@@ -0,0 +1,42 @@
+import { sendMessage } from '@extension/messaging';
+import { useState } from 'react';
+
+// Starts reading mode in the current tab, where running it again shows the original page
+const TranslatePageButton = () => {
+  const [error, setError] = useState('');
+
+  const handleClick = async () => {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (tab?.id === undefined) return;
+
+    const response = await sendMessage('readingMode.toggle', { tabId: tab.id });
+    if (!response.success) {
+      setError(response.error);
+      return;
+    }
+    // Out of the way of the page and its progress panel
+    window.close();
+  };
+
+  return (
+    <div style={{ marginBottom: 10 }}>
+      <button
+        onClick={handleClick}
+        title="Shows a translation under each paragraph of the article. Use it again to show the original."
+        style={{
+          width: '100%',
+          padding: '6px',
+          border: '1px solid #ddd',
+          borderRadius: '4px',
+          background: 'white',
+          cursor: 'pointer',
+          fontSize: 12,
+        }}>
+        Translate this page
+      </button>
+      {error && <p style={{ fontSize: 12, color: '#c92a2a', margin: '4px 0 0 0' }}>{error}</p>}
+    </div>
+  );
+};
+
+export default TranslatePageButton;
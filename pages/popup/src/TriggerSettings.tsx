@@ -0,0 +1,152 @@
+import { getSiteHost, useStorage, withSuspense } from '@extension/shared';
+import { triggerSettingsStorage } from '@extension/storage';
+import { useEffect, useState } from 'react';
+import type { TriggerModeType, TriggerModifierKeyType } from '@extension/storage';
+
+const TRIGGER_MODES: { mode: TriggerModeType; name: string }[] = [
+  { mode: 'selection', name: 'Selecting text' },
+  { mode: 'modifier', name: 'Selecting text while holding a key' },
+  { mode: 'double-click', name: 'Double-clicking a word' },
+  { mode: 'hover', name: 'Resting the pointer on a word' },
+  { mode: 'shortcut', name: 'Keyboard shortcut only' },
+  { mode: 'manual', name: 'Only from the context menu' },
+];
+
+const MODIFIER_KEYS: { key: TriggerModifierKeyType; name: string }[] = [
+  { key: 'alt', name: 'Alt (Option)' },
+  { key: 'ctrl', name: 'Ctrl' },
+  { key: 'shift', name: 'Shift' },
+  { key: 'meta', name: 'Cmd / Windows' },
+];
+
+const selectStyle = {
+  width: '100%',
+  padding: '6px',
+  marginBottom: '10px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+};
+
+const getModeName = (mode: TriggerModeType) => TRIGGER_MODES.find(m => m.mode === mode)?.name ?? mode;
+
+const TriggerSettings = () => {
+  const { mode, modifierKey, hoverDelay, siteModes } = useStorage(triggerSettingsStorage);
+  const [currentHost, setCurrentHost] = useState('');
+  const [shortcut, setShortcut] = useState('');
+
+  useEffect(() => {
+    chrome.tabs
+      .query({ active: true, currentWindow: true })
+      .then(([tab]) => setCurrentHost(getSiteHost(tab?.url ?? '')));
+    chrome.commands
+      .getAll()
+      .then(commands => setShortcut(commands.find(c => c.name === 'translate-selection')?.shortcut ?? ''));
+  }, []);
+
+  const siteMode = siteModes[currentHost];
+  const activeModes = [mode, siteMode];
+
+  return (
+    <div>
+      <label htmlFor="trigger-mode" style={{ display: 'block', marginBottom: 5, fontSize: 14 }}>
+        Translate by:
+      </label>
+      <select
+        id="trigger-mode"
+        value={mode}
+        onChange={e => triggerSettingsStorage.setMode(e.target.value as TriggerModeType)}
+        style={selectStyle}>
+        {TRIGGER_MODES.map(m => (
+          <option key={m.mode} value={m.mode}>
+            {m.name}
+          </option>
+        ))}
+      </select>
+
+      {activeModes.includes('modifier') && (
+        <>
+          <label htmlFor="trigger-modifier" style={{ display: 'block', marginBottom: 5, fontSize: 12 }}>
+            Key to hold while selecting:
+          </label>
+          <select
+            id="trigger-modifier"
+            value={modifierKey}
+            onChange={e => triggerSettingsStorage.setModifierKey(e.target.value as TriggerModifierKeyType)}
+            style={selectStyle}>
+            {MODIFIER_KEYS.map(k => (
+              <option key={k.key} value={k.key}>
+                {k.name}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+
+      {activeModes.includes('hover') && (
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 10, fontSize: 12 }}>
+          Delay before translating:
+          <input
+            type="number"
+            min={100}
+            max={5000}
+            step={100}
+            value={hoverDelay}
+            onChange={e => triggerSettingsStorage.setHoverDelay(Math.max(100, Number(e.target.value) || 0))}
+            style={{ width: 70, padding: '4px', border: '1px solid #ddd', borderRadius: '4px' }}
+          />
+          ms
+        </label>
+      )}
+
+      {currentHost && (
+        <>
+          <label htmlFor="site-trigger-mode" style={{ display: 'block', marginBottom: 5, fontSize: 12 }}>
+            On {currentHost}, translate by:
+          </label>
+          <select
+            id="site-trigger-mode"
+            value={siteMode ?? ''}
+            onChange={e =>
+              triggerSettingsStorage.setSiteMode(currentHost, (e.target.value || null) as TriggerModeType | null)
+            }
+            style={selectStyle}>
+            <option value="">Use the setting above</option>
+            {TRIGGER_MODES.map(m => (
+              <option key={m.mode} value={m.mode}>
+                {m.name}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+
+      {Object.entries(siteModes)
+        .filter(([host]) => host !== currentHost)
+        .map(([host, hostMode]) => (
+          <div
+            key={host}
+            style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, color: '#666', marginBottom: 4 }}>
+            <span>
+              {host}: {getModeName(hostMode)}
+            </span>
+            <button
+              onClick={() => triggerSettingsStorage.setSiteMode(host, null)}
+              style={{ border: 'none', background: 'none', color: '#1a73e8', cursor: 'pointer', fontSize: 11 }}>
+              Remove
+            </button>
+          </div>
+        ))}
+
+      <p style={{ fontSize: 11, color: '#666', margin: '0 0 10px 0' }}>
+        {shortcut ? `Press ${shortcut} to translate the selection in any mode but manual. ` : 'No shortcut is set. '}
+        <button
+          onClick={() => chrome.tabs.create({ url: 'chrome://extensions/shortcuts' })}
+          style={{ border: 'none', background: 'none', padding: 0, color: '#1a73e8', cursor: 'pointer', fontSize: 11 }}>
+          Change shortcut
+        </button>
+      </p>
+    </div>
+  );
+};
+
+export default withSuspense(TriggerSettings, <div style={{ fontSize: 12, color: '#666' }}>Loading...</div>);
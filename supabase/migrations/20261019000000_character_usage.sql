@@ -0,0 +1,48 @@
+-- Characters each user sent to the translation provider per calendar month, mirrored from the extension so the
+-- monthly limit holds across devices. The extension upserts on (user_id, month) and keeps the higher count.
+
+create table if not exists public.character_usage (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Calendar month as YYYY-MM
+  month text not null check (month ~ '^\d{4}-(0[1-9]|1[0-2])$'),
+  characters_used integer not null default 0 check (characters_used >= 0),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, month)
+);
+
+-- Devices only ever push counts up; an older count from a device that was offline doesn't lower the row
+create or replace function public.keep_highest_character_usage()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.characters_used := greatest(old.characters_used, new.characters_used);
+  return new;
+end;
+$$;
+
+drop trigger if exists keep_highest_character_usage on public.character_usage;
+create trigger keep_highest_character_usage
+  before update on public.character_usage
+  for each row execute function public.keep_highest_character_usage();
+
+alter table public.character_usage enable row level security;
+
+drop policy if exists "Users read their own usage" on public.character_usage;
+create policy "Users read their own usage"
+  on public.character_usage for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+drop policy if exists "Users add their own usage" on public.character_usage;
+create policy "Users add their own usage"
+  on public.character_usage for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "Users update their own usage" on public.character_usage;
+create policy "Users update their own usage"
+  on public.character_usage for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
@@ -0,0 +1,125 @@
+-- One flashcard per word and language pair. Looking a word up again counts as another encounter of the same card,
+-- recorded by record_flashcard_encounter in a single statement so concurrent lookups can't add the card twice.
+
+alter table public.flashcards
+  add column if not exists encounter_count integer not null default 1,
+  add column if not exists contexts text[] not null default '{}',
+  add column if not exists urls text[] not null default '{}',
+  add column if not exists first_seen timestamptz,
+  add column if not exists last_seen timestamptz;
+
+update public.flashcards
+set
+  contexts = case when coalesce(context, '') = '' then '{}' else array[context] end,
+  urls = case when coalesce(url, '') = '' then '{}' else array[url] end,
+  first_seen = coalesce(first_seen, date),
+  last_seen = coalesce(last_seen, date);
+
+-- Earlier versions added a card per lookup; the oldest card of a word is kept and the others are folded into it
+with duplicates as (
+  select
+    user_id,
+    original,
+    original_language,
+    translation_language,
+    (array_agg(id order by date, id))[1] as keep_id,
+    count(*) as encounter_count,
+    array_agg(distinct context) filter (where coalesce(context, '') <> '') as contexts,
+    array_agg(distinct url) filter (where coalesce(url, '') <> '') as urls,
+    min(date) as first_seen,
+    max(date) as last_seen
+  from public.flashcards
+  group by user_id, original, original_language, translation_language
+  having count(*) > 1
+),
+folded as (
+  update public.flashcards f
+  set
+    encounter_count = d.encounter_count,
+    contexts = coalesce(d.contexts[greatest(cardinality(d.contexts) - 19, 1):], '{}'),
+    urls = coalesce(d.urls[greatest(cardinality(d.urls) - 49, 1):], '{}'),
+    first_seen = d.first_seen,
+    last_seen = d.last_seen
+  from duplicates d
+  where f.id = d.keep_id
+)
+delete from public.flashcards f
+using duplicates d
+where f.user_id = d.user_id
+  and f.original = d.original
+  and f.original_language is not distinct from d.original_language
+  and f.translation_language is not distinct from d.translation_language
+  and f.id <> d.keep_id;
+
+create unique index if not exists flashcards_user_word_languages_key
+  on public.flashcards (user_id, original, original_language, translation_language) nulls not distinct;
+
+-- Appends a value unless it's empty or already listed, dropping the oldest values past the limit
+create or replace function public.append_distinct(list text[], value text, max_length integer)
+returns text[]
+language sql
+immutable
+as $$
+  select case
+    when coalesce(value, '') = '' or value = any(coalesce(list, '{}')) then coalesce(list, '{}')
+    else (coalesce(list, '{}') || value)[greatest(cardinality(coalesce(list, '{}')) + 2 - max_length, 1):]
+  end;
+$$;
+
+-- Adds the card for the signed-in user, or counts another encounter of it. Only the counter, the lists of contexts
+-- and pages and the last time seen change on an existing card, so a translation the user edited stays.
+create or replace function public.record_flashcard_encounter(
+  p_original text,
+  p_translation text,
+  p_context text,
+  p_url text,
+  p_original_language text,
+  p_translation_language text,
+  p_seen_at timestamptz
+)
+returns setof public.flashcards
+language sql
+security invoker
+as $$
+  insert into public.flashcards as f (
+    user_id,
+    original,
+    translation,
+    context,
+    url,
+    original_language,
+    translation_language,
+    date,
+    encounter_count,
+    contexts,
+    urls,
+    first_seen,
+    last_seen
+  )
+  values (
+    auth.uid(),
+    p_original,
+    p_translation,
+    p_context,
+    p_url,
+    p_original_language,
+    p_translation_language,
+    p_seen_at,
+    1,
+    public.append_distinct('{}', p_context, 20),
+    public.append_distinct('{}', p_url, 50),
+    p_seen_at,
+    p_seen_at
+  )
+  on conflict (user_id, original, original_language, translation_language) do update
+  set
+    encounter_count = f.encounter_count + 1,
+    contexts = public.append_distinct(f.contexts, excluded.context, 20),
+    urls = public.append_distinct(f.urls, excluded.url, 50),
+    -- Writes replayed from the outbox can arrive out of order
+    last_seen = greatest(f.last_seen, excluded.last_seen)
+  returning f.*;
+$$;
+
+grant execute on function public.record_flashcard_encounter(text, text, text, text, text, text, timestamptz)
+  to authenticated;
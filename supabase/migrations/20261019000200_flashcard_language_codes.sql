@@ -0,0 +1,119 @@
+-- Cards saved before the language registry have their languages in lower case, e.g. `en-us` where the extension now
+-- writes `en-US`, so record_flashcard_encounter wouldn't find them and a second card of the word would be added.
+-- The codes earlier versions stored are rewritten the way the extension writes them now (see flashcard-key.ts), and
+-- cards that then turn out to be the same word and languages are folded into the oldest one.
+
+-- The language translated from is a lower-case base code, `auto` when unknown, like normalizeLang writes it
+create function pg_temp.to_source_language_code(code text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when base ~ '^[a-z]{2,3}$' and base not in ('und', 'mul', 'zxx', 'mis') then base
+    else 'auto'
+  end
+  from (select split_part(lower(replace(trim(coalesce(code, '')), '_', '-')), '-', 1) as base) as code_parts;
+$$;
+
+-- The language translated to is the registry's code, like toLanguageCode writes it. Bare `zh` and `pt` were the
+-- popup's "Chinese (simplified)" and "Portuguese", which the settings migration turns into these variants as well.
+create function pg_temp.to_target_language_code(code text)
+returns text
+language sql
+immutable
+as $$
+  select case lower(replace(trim(code), '_', '-'))
+    when 'zh' then 'zh-Hans'
+    when 'pt' then 'pt-PT'
+    when 'en-us' then 'en-US'
+    when 'en-gb' then 'en-GB'
+    when 'pt-pt' then 'pt-PT'
+    when 'pt-br' then 'pt-BR'
+    when 'zh-hans' then 'zh-Hans'
+    when 'zh-cn' then 'zh-Hans'
+    when 'zh-hant' then 'zh-Hant'
+    when 'zh-tw' then 'zh-Hant'
+    when 'es-xl' then 'es-419'
+    when 'no' then 'nb'
+    else lower(replace(trim(code), '_', '-'))
+  end;
+$$;
+
+create temporary table normalized_flashcards as
+select
+  id,
+  user_id,
+  original,
+  date,
+  encounter_count,
+  contexts,
+  urls,
+  first_seen,
+  last_seen,
+  pg_temp.to_source_language_code(original_language) as original_language,
+  pg_temp.to_target_language_code(translation_language) as translation_language
+from public.flashcards;
+
+create temporary table duplicate_flashcards as
+select
+  user_id,
+  original,
+  original_language,
+  translation_language,
+  (array_agg(id order by date, id))[1] as keep_id,
+  sum(encounter_count) as encounter_count,
+  min(first_seen) as first_seen,
+  max(last_seen) as last_seen
+from normalized_flashcards
+group by user_id, original, original_language, translation_language
+having count(*) > 1;
+
+update public.flashcards f
+set
+  encounter_count = d.encounter_count,
+  contexts = (
+    select coalesce((array_agg(distinct context))[1:20], '{}')
+    from normalized_flashcards n, unnest(n.contexts) as context
+    where n.user_id = d.user_id
+      and n.original = d.original
+      and n.original_language is not distinct from d.original_language
+      and n.translation_language is not distinct from d.translation_language
+  ),
+  urls = (
+    select coalesce((array_agg(distinct url))[1:50], '{}')
+    from normalized_flashcards n, unnest(n.urls) as url
+    where n.user_id = d.user_id
+      and n.original = d.original
+      and n.original_language is not distinct from d.original_language
+      and n.translation_language is not distinct from d.translation_language
+  ),
+  first_seen = d.first_seen,
+  last_seen = d.last_seen
+from duplicate_flashcards d
+where f.id = d.keep_id;
+
+delete from public.flashcards f
+using normalized_flashcards n, duplicate_flashcards d
+where f.id = n.id
+  and n.user_id = d.user_id
+  and n.original = d.original
+  and n.original_language is not distinct from d.original_language
+  and n.translation_language is not distinct from d.translation_language
+  and n.id <> d.keep_id;
+
+update public.flashcards f
+set
+  original_language = n.original_language,
+  translation_language = n.translation_language
+from normalized_flashcards n
+where f.id = n.id
+  and (
+    f.original_language is distinct from n.original_language
+    or f.translation_language is distinct from n.translation_language
+  );
+
+drop table duplicate_flashcards;
+drop table normalized_flashcards;
+drop function pg_temp.to_source_language_code(text);
+drop function pg_temp.to_target_language_code(text);
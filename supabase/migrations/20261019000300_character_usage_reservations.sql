@@ -0,0 +1,73 @@
+-- The extension sets characters aside before sending them to the provider, so the monthly limit holds when several
+-- translations run at once, on one device or many. Checking the count and adding to it happen in one statement; the
+-- characters of a request the provider fails are given back.
+
+-- Adds the characters to the signed-in user's count for the month, unless they would take it over the limit. Returns
+-- the new count, or null when they don't fit.
+create or replace function public.reserve_character_usage(p_month text, p_characters integer, p_limit integer)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  used integer;
+begin
+  if p_characters < 0 then
+    raise exception 'Characters to reserve can''t be negative';
+  end if;
+  if p_characters > p_limit then
+    return null;
+  end if;
+
+  insert into public.character_usage as u (user_id, month, characters_used, updated_at)
+  values (auth.uid(), p_month, p_characters, now())
+  on conflict (user_id, month) do update
+  set characters_used = u.characters_used + excluded.characters_used, updated_at = excluded.updated_at
+  -- Evaluated on the row as locked by this statement, so concurrent reservations are checked one after the other
+  where u.characters_used + excluded.characters_used <= p_limit
+  returning u.characters_used into used;
+
+  return used;
+end;
+$$;
+
+-- Gives back characters reserved for a request the provider didn't translate. Returns the new count.
+create or replace function public.release_character_usage(p_month text, p_characters integer)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  used integer;
+begin
+  if p_characters < 0 then
+    raise exception 'Characters to release can''t be negative';
+  end if;
+
+  -- Lets keep_highest_character_usage take the lower count, for this transaction only
+  perform set_config('app.release_character_usage', 'on', true);
+  update public.character_usage
+  set characters_used = greatest(characters_used - p_characters, 0), updated_at = now()
+  where user_id = auth.uid() and month = p_month
+  returning characters_used into used;
+  perform set_config('app.release_character_usage', 'off', true);
+
+  return used;
+end;
+$$;
+
+-- Devices pushing their count still only raise it; only a release lowers it
+create or replace function public.keep_highest_character_usage()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('app.release_character_usage', true), 'off') <> 'on' then
+    new.characters_used := greatest(old.characters_used, new.characters_used);
+  end if;
+  return new;
+end;
+$$;
+
+grant execute on function public.reserve_character_usage(text, integer, integer) to authenticated;
+grant execute on function public.release_character_usage(text, integer) to authenticated;